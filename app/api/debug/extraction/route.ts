@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { GoogleMapsScraper } from '@/lib/scraper';
+import { runExtractionFixtures } from '@/lib/extraction-fixtures';
+import { DEFAULT_SELECTOR_PROFILE } from '@/lib/selector-profile';
+
+// Offline extraction check: replays saved Maps pages from fixtures/extraction
+// through the scraper's extraction code. Needs a local browser, no network
+export async function GET() {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const scraper = new GoogleMapsScraper();
+
+  try {
+    await scraper.initialize();
+    const results = await runExtractionFixtures(scraper);
+    const failed = results.filter(result => !result.passed);
+
+    return NextResponse.json(
+      {
+        profileVersion: DEFAULT_SELECTOR_PROFILE.version,
+        total: results.length,
+        passed: results.length - failed.length,
+        failed: failed.length,
+        results
+      },
+      { status: failed.length > 0 ? 422 : 200 }
+    );
+  } catch (error) {
+    console.error('Extraction harness error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run extraction fixtures',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  } finally {
+    await scraper.close();
+  }
+}
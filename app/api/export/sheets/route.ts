@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BusinessData, ExportOptions } from '@/types';
+import { validateExportOptions, validateGoogleSheetsConfig } from '@/utils/validation';
+import { exportToSheet, getSheetsClient } from '@/lib/sheets-export';
+
+// Upsert businesses into a Google Sheets tab with the service account from the
+// environment. Body: { businesses, config: { spreadsheetId?, sheetName }, options? }
+export async function POST(request: NextRequest) {
+  if (process.env.ENABLE_GOOGLE_SHEETS_EXPORT === 'false') {
+    return NextResponse.json({ error: 'Google Sheets export is disabled' }, { status: 403 });
+  }
+
+  try {
+    const { businesses, config, options } = await request.json();
+
+    if (!Array.isArray(businesses) || businesses.length === 0) {
+      return NextResponse.json({ error: 'No businesses to export' }, { status: 400 });
+    }
+
+    const validation = validateGoogleSheetsConfig(config);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid Sheets configuration', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    // The file format doesn't apply to a sheet, so it defaults to csv
+    const optionsValidation = validateExportOptions({ format: 'csv', ...options });
+    if (!optionsValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid export options', details: optionsValidation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const spreadsheetId = validation.data.spreadsheetId || process.env.GOOGLE_SHEETS_SPREADSHEET_ID;
+    if (!spreadsheetId) {
+      return NextResponse.json(
+        { error: 'Missing spreadsheetId. Pass one or set GOOGLE_SHEETS_SPREADSHEET_ID' },
+        { status: 400 }
+      );
+    }
+
+    // An injected client (tests, local fakes) doesn't need credentials
+    let client;
+    try {
+      client = getSheetsClient();
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Google Sheets is not configured',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 503 }
+      );
+    }
+
+    const exportOptions: ExportOptions = optionsValidation.data;
+
+    const result = await exportToSheet(
+      businesses as BusinessData[],
+      { sheetName: validation.data.sheetName, spreadsheetId },
+      exportOptions,
+      client
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Sheets export error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export to Google Sheets',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore, isValidJobId } from '@/lib/job-store';
+import { DATA_FORMATS, DataFormat, createExportStream, describeExportSchema } from '@/lib/export-schema';
+
+// Stream a saved job's businesses as JSON Lines or Parquet:
+// GET /api/export/stream?jobId=...&format=jsonl|parquet. format=schema returns
+// the versioned record schema both formats follow
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const format = searchParams.get('format') || 'jsonl';
+
+  if (format === 'schema') {
+    return NextResponse.json(describeExportSchema());
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(DATA_FORMATS, format)) {
+    return NextResponse.json(
+      { error: `Unsupported format "${format}". Use ${Object.keys(DATA_FORMATS).join(', ')} or schema` },
+      { status: 400 }
+    );
+  }
+
+  const jobId = searchParams.get('jobId');
+  if (!jobId) {
+    return NextResponse.json(
+      { error: 'Missing jobId. Specify which scraping job to export' },
+      { status: 400 }
+    );
+  }
+
+  if (!isValidJobId(jobId)) {
+    return NextResponse.json(
+      { error: `Invalid jobId "${jobId}"` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const store = getJobStore();
+    const summary = await store.getJobSummary(jobId);
+    if (!summary) {
+      return NextResponse.json(
+        { error: `No saved scraping job found for ${jobId}` },
+        { status: 404 }
+      );
+    }
+
+    const dataFormat = DATA_FORMATS[format as DataFormat];
+    const batchSize = parseInt(process.env.EXPORT_STREAM_BATCH_SIZE || '500');
+    console.log(`📦 Streaming ${summary.scrapedCount} businesses from job ${jobId} as ${dataFormat.label}`);
+
+    // Read from the job's log as the client pulls, so large jobs are never loaded whole
+    return new Response(createExportStream(store.readBusinesses(jobId), format as DataFormat, batchSize), {
+      headers: {
+        'Content-Type': dataFormat.mimeType,
+        'Content-Disposition': `attachment; filename="businesses_${jobId}.${dataFormat.extension}"`,
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    console.error('Export stream error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export scraping job',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,41 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGlobalScraperInstance } from '@/lib/scraper-manager';
+import {
+  applyScrapingJobAction,
+  getScrapingJob,
+  isScrapingJobActive,
+  listActiveScrapingJobs,
+  summarizeScrapingJob
+} from '@/lib/scraper-manager';
 
 export async function POST(request: NextRequest) {
   try {
-    const { action } = await request.json();
+    const { action, jobId } = await request.json();
 
-    const globalScraperInstance = getGlobalScraperInstance();
-    if (!globalScraperInstance) {
+    if (!jobId || typeof jobId !== 'string') {
       return NextResponse.json(
-        { error: 'No active scraping session found' },
+        { error: 'Missing jobId. Specify which scraping job to control' },
+        { status: 400 }
+      );
+    }
+
+    const job = getScrapingJob(jobId);
+    if (!job || !isScrapingJobActive(job)) {
+      return NextResponse.json(
+        { error: `No active scraping session found for job ${jobId}` },
         { status: 404 }
       );
     }
 
     switch (action) {
       case 'pause':
-        globalScraperInstance.pause();
-        return NextResponse.json({ 
+        applyScrapingJobAction(job, 'pause');
+        return NextResponse.json({
           message: 'Scraping paused successfully',
-          state: globalScraperInstance.getState(),
-          progress: globalScraperInstance.getProgress()
+          jobId: job.id,
+          state: job.scraper.getState(),
+          progress: job.scraper.getProgress()
         });
 
       case 'resume':
-        globalScraperInstance.resume();
-        return NextResponse.json({ 
+        applyScrapingJobAction(job, 'resume');
+        return NextResponse.json({
           message: 'Scraping resumed successfully',
-          state: globalScraperInstance.getState(),
-          progress: globalScraperInstance.getProgress()
+          jobId: job.id,
+          state: job.scraper.getState(),
+          progress: job.scraper.getProgress()
         });
 
       case 'cancel':
-        globalScraperInstance.cancel();
-        return NextResponse.json({ 
+        applyScrapingJobAction(job, 'cancel');
+        return NextResponse.json({
           message: 'Scraping cancelled successfully',
-          state: globalScraperInstance.getState(),
-          progress: globalScraperInstance.getProgress()
+          jobId: job.id,
+          state: job.scraper.getState(),
+          progress: job.scraper.getProgress()
         });
 
       default:
@@ -55,19 +71,12 @@ export async function POST(request: NextRequest) {
 
 export async function GET() {
   try {
-    const globalScraperInstance = getGlobalScraperInstance();
-    if (!globalScraperInstance) {
-      return NextResponse.json({
-        active: false,
-        state: null,
-        progress: null
-      });
-    }
+    const jobs = listActiveScrapingJobs().map(summarizeScrapingJob);
 
     return NextResponse.json({
-      active: true,
-      state: globalScraperInstance.getState(),
-      progress: globalScraperInstance.getProgress()
+      active: jobs.length > 0,
+      count: jobs.length,
+      jobs
     });
   } catch (error) {
     console.error('Status API error:', error);
@@ -76,4 +85,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
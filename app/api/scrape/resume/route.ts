@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore, isValidJobId } from '@/lib/job-store';
+import { getScrapingJob, listResumableJobs } from '@/lib/scraper-manager';
+import { createScrapeStreamResponse } from '@/lib/scrape-stream';
+
+export async function POST(request: NextRequest) {
+  try {
+    if (process.env.ENABLE_REAL_SCRAPING !== 'true') {
+      return NextResponse.json(
+        {
+          error: 'Scraping Not Enabled',
+          message: 'Real Google Maps scraping is currently disabled',
+          fix: 'Set ENABLE_REAL_SCRAPING=true in your .env.local file to enable real scraping.'
+        },
+        { status: 503 }
+      );
+    }
+
+    const { jobId } = await request.json();
+
+    if (!jobId || typeof jobId !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing jobId. Specify which scraping job to resume' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidJobId(jobId)) {
+      return NextResponse.json(
+        { error: `Invalid jobId "${jobId}"` },
+        { status: 400 }
+      );
+    }
+
+    if (getScrapingJob(jobId)) {
+      return NextResponse.json(
+        { error: `Job ${jobId} is already running` },
+        { status: 409 }
+      );
+    }
+
+    const record = await getJobStore().getJob(jobId);
+    if (!record) {
+      return NextResponse.json(
+        { error: `No saved scraping job found for ${jobId}` },
+        { status: 404 }
+      );
+    }
+
+    if (record.status !== 'running' && record.status !== 'paused') {
+      return NextResponse.json(
+        { error: `Job ${jobId} is ${record.status} and cannot be resumed` },
+        { status: 409 }
+      );
+    }
+
+    return createScrapeStreamResponse(request, {
+      params: record.params,
+      jobId: record.id,
+      run: (scraper) => scraper.resumeFromCheckpoint(record)
+    });
+  } catch (error) {
+    console.error('Resume API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume scraping job' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    const records = await listResumableJobs();
+
+    return NextResponse.json({
+      jobs: records.map(record => ({
+        id: record.id,
+        params: record.params,
+        status: record.status,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        totalLinks: record.businessLinks.length,
+        scraped: record.scrapedCount
+      }))
+    });
+  } catch (error) {
+    console.error('Resume status API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list resumable jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GoogleMapsScraper } from '@/lib/scraper';
 import { SearchParams } from '@/types';
-import { setGlobalScraperInstance, clearGlobalScraperInstance } from '@/lib/scraper-manager';
+import { registerScrapingJob, removeScrapingJob, updateScrapingJobStatus } from '@/lib/scraper-manager';
+import { createScrapeStreamResponse } from '@/lib/scrape-stream';
 import { validateSearchParams } from '@/utils/validation';
 
 // Validate environment variables
@@ -98,58 +99,10 @@ export async function POST(request: NextRequest) {
     
     if (useStreaming) {
       // Create streaming response for real-time updates
-      const encoder = new TextEncoder();
-      const stream = new ReadableStream({
-        start(controller) {
-          const scraper = new GoogleMapsScraper((progress) => {
-            // Send progress update via Server-Sent Events
-            const sseData = `data: ${JSON.stringify({
-              type: 'progress',
-              ...progress
-            })}\n\n`;
-            controller.enqueue(encoder.encode(sseData));
-          });
-
-          // Start scraping asynchronously
-          (async () => {
-            try {
-              await scraper.initialize();
-              const businesses = await scraper.scrapeBusinesses(params);
-              
-              // Send final result
-              const finalData = `data: ${JSON.stringify({
-                type: 'complete',
-                success: true,
-                businesses,
-                count: businesses.length,
-                searchParams: params,
-                warnings: missingVars.warnings.length > 0 ? missingVars.warnings : undefined
-              })}\n\n`;
-              controller.enqueue(encoder.encode(finalData));
-              controller.close();
-              
-            } catch (error: any) {
-              // Send error via SSE
-              const errorData = `data: ${JSON.stringify({
-                type: 'error',
-                error: 'Scraping Failed',
-                message: error.message || 'Unknown scraping error'
-              })}\n\n`;
-              controller.enqueue(encoder.encode(errorData));
-              controller.close();
-            } finally {
-              await scraper.close();
-            }
-          })();
-        }
-      });
-
-      return new Response(stream, {
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        },
+      return createScrapeStreamResponse(request, {
+        params,
+        warnings: missingVars.warnings,
+        run: (scraper) => scraper.scrapeBusinesses(params)
       });
     }
 
@@ -184,6 +137,7 @@ export async function POST(request: NextRequest) {
       // This could be enhanced with WebSocket for real-time updates
       console.log(`Scraping progress: ${progress.currentStep} - ${progress.progress}%`);
     });
+    const job = registerScrapingJob(scraper, params);
     
     let businesses = [];
     
@@ -202,6 +156,7 @@ export async function POST(request: NextRequest) {
       
       // Limit results based on maxResults parameter
       businesses = allBusinesses.slice(0, params.maxResults);
+      updateScrapingJobStatus(job.id, scraper.getState());
       
       if (!businesses || businesses.length === 0) {
         return NextResponse.json(
@@ -228,15 +183,18 @@ export async function POST(request: NextRequest) {
 
       return NextResponse.json({
         success: true,
+        jobId: job.id,
         businesses,
         count: businesses.length,
         searchParams: params,
+        summary: scraper.getSearchSummary(),
         timestamp: new Date().toISOString(),
         warnings: missingVars.warnings.length > 0 ? missingVars.warnings : undefined
       });
       
     } catch (scrapingError: any) {
       console.error('Scraping error details:', scrapingError);
+      updateScrapingJobStatus(job.id, 'error');
       
       // Handle specific scraping errors with better user messages
       if (scrapingError.message?.includes('Browser initialization failed')) {
@@ -363,6 +321,7 @@ export async function POST(request: NextRequest) {
       } catch (closeError) {
         console.error('Error closing scraper:', closeError);
       }
+      removeScrapingJob(job.id);
     }
     
   } catch (error: any) {
@@ -1,10 +1,12 @@
 'use client';
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MapPin, Search, Download, Filter, Database, Globe, Phone, Star, Building, Clock, Settings, FileSpreadsheet, Map, Pause, Play, X } from 'lucide-react';
-import { BusinessData, SearchParams, ScrapingProgress, FilterOptions } from '@/types';
-import { SSEScrapingClient } from '@/lib/sse-client';
+import { MapPin, Search, Download, Filter, Database, Globe, Phone, Star, Building, Clock, Settings, FileSpreadsheet, Map, Pause, Play, X, Copy } from 'lucide-react';
+import { BusinessData, SearchParams, ScrapingProgress, FilterOptions, SearchSummary } from '@/types';
+import { SSEScrapingClient, SSEControlEvent } from '@/lib/sse-client';
+import { businessTimeZone, isOpenAt, isOpenNow, parseClockTime } from '@/utils/hours';
+import { DuplicateCluster, clusterPairKeys, collapseCluster, findDuplicateClusters, mergeDatasets } from '@/lib/dedupe';
 import SearchForm from '@/components/SearchForm';
 import InfiniteScrollBusinessTable from '@/components/InfiniteScrollBusinessTable';
 import ProgressIndicator from '@/components/ProgressIndicator';
@@ -13,8 +15,24 @@ import FilterSidebar from '@/components/FilterSidebar';
 import MapView from '@/components/MapView';
 import StatsCards from '@/components/StatsCards';
 import ConfigurationCheck from '@/components/ConfigurationCheck';
+import DuplicateReviewModal from '@/components/DuplicateReviewModal';
 import toast from 'react-hot-toast';
 
+interface ScrapingSessionCallbacks {
+  onProgress: (progress: ScrapingProgress) => void;
+  onComplete: (businesses: BusinessData[], warnings?: string[], summary?: SearchSummary) => void;
+  onError: (error: string, message: string) => void;
+  onControl: (event: SSEControlEvent) => void;
+}
+
+interface ResumableJob {
+  id: string;
+  params: SearchParams;
+  updatedAt: string;
+  totalLinks: number;
+  scraped: number;
+}
+
 export default function HomePage() {
   const [isSearching, setIsSearching] = useState(false);
   const [searchProgress, setSearchProgress] = useState<ScrapingProgress | null>(null);
@@ -35,8 +53,32 @@ export default function HomePage() {
   const [currentView, setCurrentView] = useState<'table' | 'map'>('table');
   const [searchParams, setSearchParams] = useState<SearchParams | null>(null);
   
+  const [resumableJobs, setResumableJobs] = useState<ResumableJob[]>([]);
+  const [keepPreviousResults, setKeepPreviousResults] = useState(false);
+  const [showDuplicateReview, setShowDuplicateReview] = useState(false);
+  // Record pairs a reviewer marked as distinct places
+  const [dismissedPairs, setDismissedPairs] = useState<string[]>([]);
+  
   // Keep reference to SSE client for cleanup
   const sseClientRef = useRef<SSEScrapingClient | null>(null);
+  // Read from the session callbacks, which are created once
+  const keepPreviousResultsRef = useRef(keepPreviousResults);
+  keepPreviousResultsRef.current = keepPreviousResults;
+  const businessesRef = useRef(businesses);
+  businessesRef.current = businesses;
+
+  const duplicateClusters = useMemo(
+    () => findDuplicateClusters(businesses, dismissedPairs),
+    [businesses, dismissedPairs]
+  );
+
+  // Look for jobs interrupted by a server restart that can pick up where they left off
+  useEffect(() => {
+    fetch('/api/scrape/resume')
+      .then(response => response.ok ? response.json() : { jobs: [] })
+      .then(data => setResumableJobs(data.jobs || []))
+      .catch(() => setResumableJobs([]));
+  }, []);
 
   // Control functions for pause/resume/cancel
   const handlePause = async () => {
@@ -44,7 +86,7 @@ export default function HomePage() {
       const response = await fetch('/api/scrape/control', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'pause' })
+        body: JSON.stringify({ action: 'pause', jobId: sseClientRef.current?.getJobId() })
       });
       
       const result = await response.json();
@@ -64,7 +106,7 @@ export default function HomePage() {
       const response = await fetch('/api/scrape/control', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'resume' })
+        body: JSON.stringify({ action: 'resume', jobId: sseClientRef.current?.getJobId() })
       });
       
       const result = await response.json();
@@ -84,7 +126,7 @@ export default function HomePage() {
       const response = await fetch('/api/scrape/control', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'cancel' })
+        body: JSON.stringify({ action: 'cancel', jobId: sseClientRef.current?.getJobId() })
       });
       
       const result = await response.json();
@@ -100,9 +142,10 @@ export default function HomePage() {
     }
   };
 
-  const handleSearch = useCallback(async (params: SearchParams) => {
-    // Update search params for map view
-    setSearchParams(params);
+  // Shared driver for new and resumed scraping sessions
+  const runScrapingSession = useCallback(async (
+    launch: (client: SSEScrapingClient, callbacks: ScrapingSessionCallbacks) => Promise<void>
+  ) => {
     setScrapingState('running');
     
     setProgress({
@@ -124,10 +167,8 @@ export default function HomePage() {
     sseClientRef.current = sseClient;
 
     try {
-      await sseClient.startScraping(
-        params, 
-        // onProgress callback
-        (progressUpdate) => {
+      await launch(sseClient, {
+        onProgress: (progressUpdate) => {
           setProgress(progressUpdate);
           
           // Sync scraping state with progress status
@@ -142,11 +183,13 @@ export default function HomePage() {
           } else if (progressUpdate.status === 'error') {
             setScrapingState('idle');
           }
-        }, 
-        // onComplete callback
-        (businessesData, warnings) => {
-          setBusinesses(businessesData);
-          setFilteredBusinesses(businessesData);
+        },
+        onComplete: (businessesData, warnings, summary) => {
+          // Records of the same place share a stable ID and collapse here; fuzzy
+          // matches are left for the duplicate review
+          const merged = mergeDatasets(keepPreviousResultsRef.current ? businessesRef.current : [], businessesData);
+          setBusinesses(merged);
+          setFilteredBusinesses(merged);
           setScrapingState('idle');
           
           if (warnings && warnings.length > 0) {
@@ -154,9 +197,17 @@ export default function HomePage() {
           } else {
             toast.success(`Found ${businessesData.length} businesses!`);
           }
+
+          if (summary && summary.discardedOutOfRadius > 0) {
+            toast(`${summary.discardedOutOfRadius} results outside the search radius were discarded`, { duration: 6000 });
+          }
+
+          const unsplitCells = summary?.sweep?.saturatedCells.filter(cell => !cell.subdivided) || [];
+          if (unsplitCells.length > 0) {
+            toast(`${unsplitCells.length} area sweep cells were still saturated at the smallest cell size; some businesses may be missing`, { duration: 8000 });
+          }
         },
-        // onError callback
-        (error, message) => {
+        onError: (error, message) => {
           console.error('Search failed:', error, message);
           setScrapingState('idle');
           setProgress(prev => ({
@@ -167,8 +218,17 @@ export default function HomePage() {
           }));
           
           toast.error(`Search failed: ${message}`);
+        },
+        onControl: (controlEvent) => {
+          if (controlEvent.type === 'paused') {
+            setScrapingState('paused');
+          } else if (controlEvent.type === 'resumed') {
+            setScrapingState('running');
+          } else if (controlEvent.type === 'cancelled') {
+            setScrapingState('cancelled');
+          }
         }
-      );
+      });
     } catch (error) {
       console.error('Search failed:', error);
       setScrapingState('idle');
@@ -183,6 +243,32 @@ export default function HomePage() {
     }
   }, []);
 
+  const handleSearch = useCallback(async (params: SearchParams) => {
+    // Update search params for map view
+    setSearchParams(params);
+
+    await runScrapingSession((client, callbacks) => client.startScraping(
+      params,
+      callbacks.onProgress,
+      callbacks.onComplete,
+      callbacks.onError,
+      callbacks.onControl
+    ));
+  }, [runScrapingSession]);
+
+  const handleResumeJob = useCallback(async (job: ResumableJob) => {
+    setResumableJobs(prev => prev.filter(j => j.id !== job.id));
+    setSearchParams(job.params);
+
+    await runScrapingSession((client, callbacks) => client.resumeScraping(
+      job.id,
+      callbacks.onProgress,
+      callbacks.onComplete,
+      callbacks.onError,
+      callbacks.onControl
+    ));
+  }, [runScrapingSession]);
+
   const handleFilter = useCallback((filters: FilterOptions) => {
     let filtered = [...businesses];
 
@@ -206,6 +292,46 @@ export default function HomePage() {
       filtered = filtered.filter(business => business.phone && business.phone.length > 0);
     }
 
+    if (filters.city) {
+      filtered = filtered.filter(business =>
+        business.addressComponents?.city?.toLowerCase() === filters.city!.toLowerCase()
+      );
+    }
+
+    if (filters.postalCode) {
+      const prefix = filters.postalCode.replace(/\s+/g, '').toUpperCase();
+      filtered = filtered.filter(business =>
+        business.addressComponents?.postalCode?.replace(/\s+/g, '').toUpperCase().startsWith(prefix)
+      );
+    }
+
+    if (filters.minQualityScore) {
+      filtered = filtered.filter(business =>
+        business.quality && business.quality.score >= filters.minQualityScore!
+      );
+    }
+
+    if (filters.attributes && filters.attributes.length > 0) {
+      filtered = filtered.filter(business =>
+        filters.attributes!.every(key => business.attributes?.[key] === true)
+      );
+    }
+
+    // Businesses without parsed hours can't be shown to be open
+    if (filters.openNow) {
+      const now = new Date();
+      filtered = filtered.filter(business =>
+        business.openingHours && isOpenNow(business.openingHours, now, businessTimeZone(business))
+      );
+    } else if (filters.openDay && filters.openTime) {
+      const minutes = parseClockTime(filters.openTime);
+      if (minutes !== null) {
+        filtered = filtered.filter(business =>
+          business.openingHours && isOpenAt(business.openingHours, filters.openDay!, minutes)
+        );
+      }
+    }
+
     // Sort filtered results
     filtered.sort((a, b) => {
       let aValue: any = a[filters.sortBy as keyof BusinessData];
@@ -224,6 +350,22 @@ export default function HomePage() {
     setFilteredBusinesses(filtered);
   }, [businesses]);
 
+  const handleMergeCluster = useCallback((cluster: DuplicateCluster) => {
+    setBusinesses(prev => collapseCluster(prev, cluster));
+    setFilteredBusinesses(prev => collapseCluster(prev, cluster));
+  }, []);
+
+  const handleDismissCluster = useCallback((cluster: DuplicateCluster) => {
+    setDismissedPairs(prev => [...prev, ...clusterPairKeys(cluster)]);
+  }, []);
+
+  const handleMergeAllClusters = useCallback(() => {
+    setBusinesses(prev => duplicateClusters.reduce(collapseCluster, prev));
+    setFilteredBusinesses(prev => duplicateClusters.reduce(collapseCluster, prev));
+    toast.success(`Merged ${duplicateClusters.length} duplicate groups`);
+    setShowDuplicateReview(false);
+  }, [duplicateClusters]);
+
   const stats = {
     total: businesses.length,
     withWebsite: businesses.filter(b => b.website).length,
@@ -276,6 +418,16 @@ export default function HomePage() {
                 )}
               </button>
               
+              <button
+                onClick={() => setShowDuplicateReview(true)}
+                className="btn-secondary"
+                disabled={duplicateClusters.length === 0}
+                title="Review possible duplicate businesses"
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Duplicates{duplicateClusters.length > 0 ? ` (${duplicateClusters.length})` : ''}
+              </button>
+              
               <button
                 onClick={() => setShowFilterSidebar(true)}
                 className="btn-secondary"
@@ -306,8 +458,49 @@ export default function HomePage() {
           className="mb-8"
         >
           <SearchForm onSearch={handleSearch} isLoading={progress.status === 'searching' || progress.status === 'scraping'} />
+          {businesses.length > 0 && (
+            <label className="flex items-center mt-3 text-sm text-secondary-600">
+              <input
+                type="checkbox"
+                checked={keepPreviousResults}
+                onChange={(e) => setKeepPreviousResults(e.target.checked)}
+                className="mr-2 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+              />
+              Add the next search to the current {businesses.length} results instead of replacing them
+            </label>
+          )}
         </motion.div>
 
+        {/* Interrupted Jobs */}
+        {resumableJobs.length > 0 && progress.status === 'idle' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8 bg-white rounded-xl shadow-soft border border-secondary-200 p-4"
+          >
+            <h3 className="text-sm font-semibold text-secondary-900 mb-3">Interrupted searches</h3>
+            <div className="space-y-2">
+              {resumableJobs.map(job => (
+                <div key={job.id} className="flex items-center justify-between text-sm">
+                  <div className="text-secondary-600">
+                    <span className="font-medium text-secondary-900">
+                      {job.params.categories.length > 0 ? job.params.categories.join(', ') : 'Businesses'} near {job.params.location}
+                    </span>
+                    {' '}&middot; {job.scraped}/{job.totalLinks || '?'} scraped
+                  </div>
+                  <button
+                    onClick={() => handleResumeJob(job)}
+                    className="flex items-center px-3 py-1.5 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors duration-200"
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    Resume
+                  </button>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Progress Indicator */}
         <AnimatePresence>
           {(progress.status === 'searching' || progress.status === 'scraping' || progress.status === 'paused') && (
@@ -467,6 +660,17 @@ export default function HomePage() {
         isOpen={showExportModal}
         onClose={() => setShowExportModal(false)}
         businesses={filteredBusinesses}
+        searchParams={searchParams}
+      />
+
+      {/* Duplicate Review Modal */}
+      <DuplicateReviewModal
+        isOpen={showDuplicateReview}
+        onClose={() => setShowDuplicateReview(false)}
+        clusters={duplicateClusters}
+        onMerge={handleMergeCluster}
+        onDismiss={handleDismissCluster}
+        onMergeAll={handleMergeAllClusters}
       />
 
       {/* Filter Sidebar */}
@@ -0,0 +1,63 @@
+'use client';
+
+import React from 'react';
+import { PopularTimes } from '@/types';
+import { DISPLAY_WEEKDAYS } from '@/utils/hours';
+
+interface BusynessChartProps {
+  popularTimes: PopularTimes;
+}
+
+const formatHour = (hour: number): string => {
+  const suffix = hour < 12 ? 'a' : 'p';
+  return `${hour % 12 || 12}${suffix}`;
+};
+
+// Weekday x hour heat map; cell opacity follows the usual busyness percentage
+export default function BusynessChart({ popularTimes }: BusynessChartProps) {
+  const days = DISPLAY_WEEKDAYS.filter(day => popularTimes[day]);
+  const activeHours = Array.from({ length: 24 }, (_, hour) => hour)
+    .filter(hour => days.some(day => (popularTimes[day]![hour] || 0) > 0));
+  if (activeHours.length === 0) return null;
+
+  // Fill gaps so the columns stay evenly spaced in time
+  const hours = Array.from(
+    { length: activeHours[activeHours.length - 1] - activeHours[0] + 1 },
+    (_, index) => activeHours[0] + index
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+        <thead>
+          <tr>
+            <th />
+            {hours.map(hour => (
+              <th key={hour} className="font-normal text-secondary-400 w-5">
+                {hour % 3 === 0 ? formatHour(hour) : ''}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {DISPLAY_WEEKDAYS.map(day => (
+            <tr key={day}>
+              <td className="pr-2 text-secondary-600 capitalize">{day.slice(0, 3)}</td>
+              {hours.map(hour => {
+                const percent = popularTimes[day]?.[hour] || 0;
+                return (
+                  <td
+                    key={hour}
+                    title={`${day} ${formatHour(hour)}: ${percent}% busy`}
+                    className={`h-4 w-5 rounded-sm ${percent > 0 ? 'bg-primary-600' : 'bg-secondary-100'}`}
+                    style={percent > 0 ? { opacity: 0.15 + 0.85 * (percent / 100) } : undefined}
+                  />
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Merge, Split, CheckCircle } from 'lucide-react';
+import { BusinessData } from '@/types';
+import { DuplicateCluster } from '@/lib/dedupe';
+import { formatPhone } from '@/utils/phone';
+
+interface DuplicateReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clusters: DuplicateCluster[];
+  onMerge: (cluster: DuplicateCluster) => void;
+  onDismiss: (cluster: DuplicateCluster) => void;
+  onMergeAll: () => void;
+}
+
+const formatScrapedAt = (scrapedAt: Date | string): string => new Date(scrapedAt).toLocaleString();
+
+function BusinessSummary({ business, merged = false }: { business: BusinessData; merged?: boolean }) {
+  return (
+    <div className={`p-3 rounded-lg border text-sm ${merged ? 'border-success-200 bg-success-50' : 'border-secondary-200'}`}>
+      <div className="font-medium text-secondary-900">{business.name}</div>
+      <div className="text-secondary-600">{business.address}</div>
+      {business.phone && (
+        <div className="text-secondary-600">{formatPhone(business.phone, business.phoneDetails)}</div>
+      )}
+      {business.website && (
+        <div className="text-secondary-600 truncate">{business.website}</div>
+      )}
+      <div className="text-xs text-secondary-400 mt-1">
+        {merged && business.mergedIds ? `${business.id} (+${business.mergedIds.length} merged)` : business.id}
+        {' '}&middot; scraped {formatScrapedAt(business.scrapedAt)}
+      </div>
+    </div>
+  );
+}
+
+export default function DuplicateReviewModal({
+  isOpen,
+  onClose,
+  clusters,
+  onMerge,
+  onDismiss,
+  onMergeAll
+}: DuplicateReviewModalProps) {
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <div className="modal-overlay" onClick={onClose}>
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+          onClick={(e) => e.stopPropagation()}
+          className="modal-content"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-secondary-200">
+            <div>
+              <h2 className="text-xl font-semibold text-secondary-900">
+                Review Duplicates
+              </h2>
+              <p className="text-sm text-secondary-600 mt-1">
+                {clusters.length} possible duplicate {clusters.length === 1 ? 'group' : 'groups'}. Merging keeps the freshest non-empty value for each field.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-secondary-400 hover:text-secondary-600 transition-colors"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6 max-h-[60vh] overflow-y-auto">
+            {clusters.length === 0 ? (
+              <div className="text-center py-8 text-secondary-600">
+                <CheckCircle className="h-8 w-8 text-success-600 mx-auto mb-2" />
+                No duplicates left to review
+              </div>
+            ) : (
+              clusters.map(cluster => (
+                <div key={cluster.key} className="space-y-3 pb-6 border-b border-secondary-200 last:border-b-0 last:pb-0">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-secondary-500">
+                      {cluster.members.length} records &middot; {cluster.reasons.join('; ')}
+                    </p>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => onDismiss(cluster)}
+                        className="btn-secondary text-sm"
+                      >
+                        <Split className="h-4 w-4 mr-2" />
+                        Keep separate
+                      </button>
+                      <button
+                        onClick={() => onMerge(cluster)}
+                        className="btn-primary text-sm"
+                      >
+                        <Merge className="h-4 w-4 mr-2" />
+                        Merge
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {cluster.members.map(member => (
+                      <BusinessSummary key={member.id} business={member} />
+                    ))}
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-medium text-secondary-700 mb-1">Merged result</p>
+                    <BusinessSummary business={cluster.merged} merged />
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-end space-x-3 p-6 border-t border-secondary-200">
+            <button
+              onClick={onClose}
+              className="btn-secondary"
+            >
+              Close
+            </button>
+            <button
+              onClick={onMergeAll}
+              disabled={clusters.length === 0}
+              className="btn-primary"
+            >
+              <Merge className="h-4 w-4 mr-2" />
+              Merge All
+            </button>
+          </div>
+        </motion.div>
+      </div>
+    </AnimatePresence>
+  );
+}
@@ -9,62 +9,97 @@ import {
   CheckCircle, 
   Loader2,
   ExternalLink,
-  Settings
+  Settings,
+  Sheet,
+  ChevronUp,
+  ChevronDown,
+  MapPin,
+  AlertTriangle,
+  Database
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { BusinessData } from '@/types';
-import { DataExporter } from '@/lib/export';
+import { BusinessData, ExportOptions, SearchParams } from '@/types';
+import { DataExporter, GEO_FORMATS, GeoFormat } from '@/lib/export';
+import { DEFAULT_EXPORT_FIELDS, EXPORT_FIELDS } from '@/lib/export-columns';
+import { DATA_FORMATS, DataFormat, EXPORT_SCHEMA_VERSION } from '@/lib/export-schema';
 
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
   businesses: BusinessData[];
+  // Parameters of the search that produced the results, for the XLSX Search sheet
+  searchParams?: SearchParams | null;
 }
 
-export default function ExportModal({ isOpen, onClose, businesses }: ExportModalProps) {
-  const [exportType, setExportType] = useState<'csv' | 'sheets'>('csv');
+export default function ExportModal({ isOpen, onClose, businesses, searchParams }: ExportModalProps) {
+  const [exportType, setExportType] = useState<'csv' | 'xlsx' | 'sheets' | 'geo' | 'data'>('csv');
   const [isExporting, setIsExporting] = useState(false);
-  const [selectedFields, setSelectedFields] = useState<string[]>([
-    'name', 'address', 'phone', 'website', 'rating', 'reviewCount', 'category'
-  ]);
+  // Every field in column order; selectedFields keeps that order
+  const [fieldOrder, setFieldOrder] = useState<string[]>(EXPORT_FIELDS.map(field => field.id));
+  const [checkedFields, setCheckedFields] = useState<string[]>(DEFAULT_EXPORT_FIELDS);
   const [sheetName, setSheetName] = useState('Business Data');
+  const [spreadsheet, setSpreadsheet] = useState('');
   const [includePhotos, setIncludePhotos] = useState(false);
+  const [hoursByWeekday, setHoursByWeekday] = useState(false);
+  const [addressComponents, setAddressComponents] = useState(false);
+  const [exportReviews, setExportReviews] = useState(true);
+  const [searchMetadata, setSearchMetadata] = useState(true);
+  const [categorySummary, setCategorySummary] = useState(true);
+  const [delimiter, setDelimiter] = useState<NonNullable<ExportOptions['delimiter']>>(',');
+  const [encoding, setEncoding] = useState<NonNullable<ExportOptions['encoding']>>('utf-8-bom');
+  const [includeHeader, setIncludeHeader] = useState(true);
+  const [geoFormat, setGeoFormat] = useState<GeoFormat>('geojson');
+  const [dataFormat, setDataFormat] = useState<DataFormat>('jsonl');
 
-  const availableFields = [
-    { id: 'name', label: 'Business Name', required: true },
-    { id: 'address', label: 'Address', required: false },
-    { id: 'phone', label: 'Phone Number', required: false },
-    { id: 'website', label: 'Website', required: false },
-    { id: 'rating', label: 'Rating', required: false },
-    { id: 'reviewCount', label: 'Review Count', required: false },
-    { id: 'category', label: 'Category', required: false },
-    { id: 'hours', label: 'Operating Hours', required: false },
-    { id: 'coordinates', label: 'Coordinates', required: false },
-    { id: 'scrapedAt', label: 'Scraped Date', required: false },
-  ];
+  const reviewCount = businesses.reduce((sum, business) => sum + (business.reviews?.length || 0), 0);
+  const withoutCoordinates = exportType === 'geo' ? DataExporter.missingCoordinates(businesses) : [];
+
+  const selectedFields = fieldOrder.filter(id => checkedFields.includes(id));
 
   const handleFieldToggle = (fieldId: string) => {
-    const field = availableFields.find(f => f.id === fieldId);
+    const field = EXPORT_FIELDS.find(f => f.id === fieldId);
     if (field?.required) return; // Can't uncheck required fields
 
-    setSelectedFields(prev => 
+    setCheckedFields(prev => 
       prev.includes(fieldId)
         ? prev.filter(id => id !== fieldId)
         : [...prev, fieldId]
     );
   };
 
+  const moveField = (fieldId: string, offset: number) => {
+    setFieldOrder(prev => {
+      const index = prev.indexOf(fieldId);
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
   const handleExportCSV = async () => {
     setIsExporting(true);
     try {
-      const csvContent = DataExporter.generateCSVContent(businesses, {
+      const options: ExportOptions = {
         format: 'csv',
         includePhotos,
-        selectedFields
-      });
+        selectedFields,
+        hoursByWeekday,
+        addressComponents,
+        reviews: exportReviews,
+        delimiter,
+        encoding,
+        includeHeader
+      };
+      const csvContent = DataExporter.generateCSVContent(businesses, options);
 
-      const filename = `business_data_${new Date().toISOString().split('T')[0]}.csv`;
-      DataExporter.downloadCSV(csvContent, filename);
+      const date = new Date().toISOString().split('T')[0];
+      const extension = delimiter === '\t' ? 'tsv' : 'csv';
+      DataExporter.downloadCSV(csvContent, `business_data_${date}.${extension}`);
+      if (exportReviews && reviewCount > 0) {
+        DataExporter.downloadCSV(DataExporter.generateReviewsCSVContent(businesses, options), `business_reviews_${date}.${extension}`);
+      }
       
       toast.success(`Successfully exported ${businesses.length} businesses to CSV!`);
       onClose();
@@ -76,14 +111,93 @@ export default function ExportModal({ isOpen, onClose, businesses }: ExportModal
     }
   };
 
+  const handleExportXLSX = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await DataExporter.generateXLSX(businesses, {
+        format: 'xlsx',
+        includePhotos,
+        selectedFields,
+        hoursByWeekday,
+        addressComponents,
+        reviews: exportReviews,
+        searchMetadata,
+        categorySummary
+      }, searchParams || undefined);
+
+      const date = new Date().toISOString().split('T')[0];
+      DataExporter.downloadBlob(blob, `business_data_${date}.xlsx`);
+
+      toast.success(`Successfully exported ${businesses.length} businesses to Excel!`);
+      onClose();
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Failed to export data. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportGeo = () => {
+    setIsExporting(true);
+    try {
+      const result = DataExporter.generateGeoFile(businesses, geoFormat);
+      const { extension, label, mimeType } = GEO_FORMATS[geoFormat];
+
+      const date = new Date().toISOString().split('T')[0];
+      DataExporter.downloadBlob(new Blob([result.content], { type: mimeType }), `business_data_${date}.${extension}`);
+
+      toast.success(`Successfully exported ${result.exported} businesses to ${label}!`);
+      if (result.missingCoordinates.length > 0) {
+        toast(`${result.missingCoordinates.length} businesses without coordinates were not exported`, { duration: 6000 });
+      }
+      onClose();
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Failed to export data. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportData = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await DataExporter.generateDataFile(businesses, dataFormat);
+      const { extension, label } = DATA_FORMATS[dataFormat];
+
+      const date = new Date().toISOString().split('T')[0];
+      DataExporter.downloadBlob(blob, `business_data_${date}.${extension}`);
+
+      toast.success(`Successfully exported ${businesses.length} businesses to ${label}!`);
+      onClose();
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Failed to export data. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleExportSheets = async () => {
     setIsExporting(true);
     try {
-      // This would require Google Sheets API setup
-      toast.error('Google Sheets integration requires API setup. Use CSV export for now.');
+      // Accept the spreadsheet's URL as well as its bare ID
+      const spreadsheetId = spreadsheet.match(/\/d\/([a-zA-Z0-9_-]+)/)?.[1] || spreadsheet.trim() || undefined;
+      const url = await DataExporter.exportToGoogleSheets(businesses, { spreadsheetId, sheetName }, {
+        format: 'csv',
+        includePhotos,
+        selectedFields,
+        hoursByWeekday,
+        addressComponents
+      });
+
+      toast.success(`Successfully exported ${businesses.length} businesses to Google Sheets!`);
+      window.open(url, '_blank', 'noopener,noreferrer');
+      onClose();
     } catch (error) {
       console.error('Export error:', error);
-      toast.error('Failed to export to Google Sheets. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to export to Google Sheets. Please try again.');
     } finally {
       setIsExporting(false);
     }
@@ -92,6 +206,12 @@ export default function ExportModal({ isOpen, onClose, businesses }: ExportModal
   const handleExport = () => {
     if (exportType === 'csv') {
       handleExportCSV();
+    } else if (exportType === 'xlsx') {
+      handleExportXLSX();
+    } else if (exportType === 'geo') {
+      handleExportGeo();
+    } else if (exportType === 'data') {
+      handleExportData();
     } else {
       handleExportSheets();
     }
@@ -151,6 +271,25 @@ export default function ExportModal({ isOpen, onClose, businesses }: ExportModal
                   </div>
                 </button>
 
+                <button
+                  onClick={() => setExportType('xlsx')}
+                  className={`p-4 rounded-lg border-2 transition-all ${
+                    exportType === 'xlsx'
+                      ? 'border-primary-500 bg-primary-50'
+                      : 'border-secondary-200 hover:border-secondary-300'
+                  }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <Sheet className="h-5 w-5 text-success-600" />
+                    <div className="text-left">
+                      <div className="font-medium text-secondary-900">Excel</div>
+                      <div className="text-sm text-secondary-600">
+                        Workbook with several sheets
+                      </div>
+                    </div>
+                  </div>
+                </button>
+
                 <button
                   onClick={() => setExportType('sheets')}
                   className={`p-4 rounded-lg border-2 transition-all ${
@@ -169,6 +308,44 @@ export default function ExportModal({ isOpen, onClose, businesses }: ExportModal
                     </div>
                   </div>
                 </button>
+
+                <button
+                  onClick={() => setExportType('geo')}
+                  className={`p-4 rounded-lg border-2 transition-all ${
+                    exportType === 'geo'
+                      ? 'border-primary-500 bg-primary-50'
+                      : 'border-secondary-200 hover:border-secondary-300'
+                  }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <MapPin className="h-5 w-5 text-primary-600" />
+                    <div className="text-left">
+                      <div className="font-medium text-secondary-900">Map File</div>
+                      <div className="text-sm text-secondary-600">
+                        GeoJSON, KML or GPX
+                      </div>
+                    </div>
+                  </div>
+                </button>
+
+                <button
+                  onClick={() => setExportType('data')}
+                  className={`p-4 rounded-lg border-2 transition-all ${
+                    exportType === 'data'
+                      ? 'border-primary-500 bg-primary-50'
+                      : 'border-secondary-200 hover:border-secondary-300'
+                  }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <Database className="h-5 w-5 text-primary-600" />
+                    <div className="text-left">
+                      <div className="font-medium text-secondary-900">Data File</div>
+                      <div className="text-sm text-secondary-600">
+                        JSON Lines or Parquet
+                      </div>
+                    </div>
+                  </div>
+                </button>
               </div>
             </div>
 
@@ -179,6 +356,14 @@ export default function ExportModal({ isOpen, onClose, businesses }: ExportModal
                 animate={{ opacity: 1, height: 'auto' }}
                 className="space-y-3"
               >
+                <label className="label">Spreadsheet</label>
+                <input
+                  type="text"
+                  value={spreadsheet}
+                  onChange={(e) => setSpreadsheet(e.target.value)}
+                  className="input"
+                  placeholder="Spreadsheet URL or ID (default from server settings)"
+                />
                 <label className="label">Sheet Name</label>
                 <input
                   type="text"
@@ -190,54 +375,226 @@ export default function ExportModal({ isOpen, onClose, businesses }: ExportModal
                 <div className="flex items-center p-3 bg-warning-50 border border-warning-200 rounded-lg">
                   <Settings className="h-4 w-4 text-warning-600 mr-2 flex-shrink-0" />
                   <p className="text-sm text-warning-700">
-                    Google Sheets export requires API configuration in your environment settings.
+                    Needs a service account in the server environment, with the spreadsheet shared to it as Editor. Rows are matched on Business ID, so exporting again updates them.
                   </p>
                 </div>
               </motion.div>
             )}
 
+            {/* Map File Options */}
+            {exportType === 'geo' && (
+              <div className="space-y-3">
+                <label className="label">Map Format</label>
+                <select
+                  value={geoFormat}
+                  onChange={(e) => setGeoFormat(e.target.value as GeoFormat)}
+                  className="input"
+                >
+                  <option value="geojson">GeoJSON (QGIS, all fields as properties)</option>
+                  <option value="kml">KML (Google Earth, folders by category)</option>
+                  <option value="gpx">GPX (waypoints for GPS devices)</option>
+                </select>
+                {withoutCoordinates.length > 0 && (
+                  <div className="flex items-start p-3 bg-warning-50 border border-warning-200 rounded-lg">
+                    <AlertTriangle className="h-4 w-4 text-warning-600 mt-0.5 mr-2 flex-shrink-0" />
+                    <p className="text-sm text-warning-700">
+                      {withoutCoordinates.length} of {businesses.length} businesses have no coordinates and will be left out:{' '}
+                      {withoutCoordinates.slice(0, 5).map(business => business.name).join(', ')}
+                      {withoutCoordinates.length > 5 && ` and ${withoutCoordinates.length - 5} more`}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Data File Options */}
+            {exportType === 'data' && (
+              <div className="space-y-3">
+                <label className="label">Data Format</label>
+                <select
+                  value={dataFormat}
+                  onChange={(e) => setDataFormat(e.target.value as DataFormat)}
+                  className="input"
+                >
+                  <option value="jsonl">JSON Lines (one record per line)</option>
+                  <option value="parquet">Parquet (columnar, for warehouses)</option>
+                </select>
+                <div className="flex items-start p-3 bg-primary-50 border border-primary-100 rounded-lg">
+                  <Database className="h-4 w-4 text-primary-600 mt-0.5 mr-2 flex-shrink-0" />
+                  <p className="text-sm text-primary-700">
+                    Every field is exported with its type, following schema version {EXPORT_SCHEMA_VERSION}. For large jobs, stream the file from /api/export/stream instead.
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Field Selection */}
-            <div className="space-y-3">
-              <label className="label">Select Fields to Export</label>
-              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto p-3 border border-secondary-200 rounded-lg">
-                {availableFields.map((field) => (
-                  <label key={field.id} className="flex items-center space-x-2">
+            {exportType !== 'geo' && exportType !== 'data' && (
+              <div className="space-y-3">
+                <label className="label">Select and Order Columns</label>
+                <div className="max-h-48 overflow-y-auto p-3 border border-secondary-200 rounded-lg space-y-1">
+                  {fieldOrder.map((fieldId, index) => {
+                    const field = EXPORT_FIELDS.find(f => f.id === fieldId)!;
+                    return (
+                      <div key={field.id} className="flex items-center justify-between">
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={checkedFields.includes(field.id)}
+                            onChange={() => handleFieldToggle(field.id)}
+                            disabled={field.required}
+                            className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          <span className={`text-sm ${
+                            field.required ? 'text-secondary-900 font-medium' : 'text-secondary-700'
+                          }`}>
+                            {field.label}
+                            {field.required && ' *'}
+                          </span>
+                        </label>
+                        <div className="flex items-center">
+                          <button
+                            onClick={() => moveField(field.id, -1)}
+                            disabled={index === 0}
+                            className="p-1 text-secondary-400 hover:text-secondary-600 disabled:opacity-30"
+                            title="Move up"
+                          >
+                            <ChevronUp className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => moveField(field.id, 1)}
+                            disabled={index === fieldOrder.length - 1}
+                            className="p-1 text-secondary-400 hover:text-secondary-600 disabled:opacity-30"
+                            title="Move down"
+                          >
+                            <ChevronDown className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-secondary-500">
+                  * Required fields cannot be deselected. Columns are exported in this order.
+                </p>
+              </div>
+            )}
+
+            {/* CSV Options */}
+            {exportType === 'csv' && (
+              <div className="space-y-3">
+                <label className="label">CSV Format</label>
+                <div className="grid grid-cols-2 gap-3">
+                  <select
+                    value={delimiter}
+                    onChange={(e) => setDelimiter(e.target.value as NonNullable<ExportOptions['delimiter']>)}
+                    className="input"
+                  >
+                    <option value=",">Comma (,)</option>
+                    <option value=";">Semicolon (;)</option>
+                    <option value={'\t'}>Tab</option>
+                  </select>
+                  <select
+                    value={encoding}
+                    onChange={(e) => setEncoding(e.target.value as NonNullable<ExportOptions['encoding']>)}
+                    className="input"
+                  >
+                    <option value="utf-8-bom">UTF-8 with BOM (Excel)</option>
+                    <option value="utf-8">UTF-8</option>
+                  </select>
+                </div>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={includeHeader}
+                    onChange={(e) => setIncludeHeader(e.target.checked)}
+                    className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-secondary-700">
+                    Include header row
+                  </span>
+                </label>
+              </div>
+            )}
+
+            {/* Additional Options */}
+            {exportType !== 'geo' && exportType !== 'data' && (
+              <div className="space-y-3">
+                <label className="label">Additional Options</label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={includePhotos}
+                    onChange={(e) => setIncludePhotos(e.target.checked)}
+                    className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-secondary-700">
+                    Include photo URLs (when available)
+                  </span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={hoursByWeekday}
+                    onChange={(e) => setHoursByWeekday(e.target.checked)}
+                    className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-secondary-700">
+                    Opening hours as one column per weekday
+                  </span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={addressComponents}
+                    onChange={(e) => setAddressComponents(e.target.checked)}
+                    className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-secondary-700">
+                    Split address into street, city, postal code, region and country
+                  </span>
+                </label>
+                {reviewCount > 0 && (
+                  <label className="flex items-center space-x-2">
                     <input
                       type="checkbox"
-                      checked={selectedFields.includes(field.id)}
-                      onChange={() => handleFieldToggle(field.id)}
-                      disabled={field.required}
+                      checked={exportReviews}
+                      onChange={(e) => setExportReviews(e.target.checked)}
                       className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
                     />
-                    <span className={`text-sm ${
-                      field.required ? 'text-secondary-900 font-medium' : 'text-secondary-700'
-                    }`}>
-                      {field.label}
-                      {field.required && ' *'}
+                    <span className="text-sm text-secondary-700">
+                      Export {reviewCount} reviews as a separate {exportType === 'xlsx' ? 'sheet' : 'CSV'}
                     </span>
                   </label>
-                ))}
+                )}
+                {exportType === 'xlsx' && (
+                  <>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={searchMetadata}
+                        onChange={(e) => setSearchMetadata(e.target.checked)}
+                        className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span className="text-sm text-secondary-700">
+                        Search sheet with the search parameters, export time and counts
+                      </span>
+                    </label>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={categorySummary}
+                        onChange={(e) => setCategorySummary(e.target.checked)}
+                        className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span className="text-sm text-secondary-700">
+                        Categories sheet with counts and average rating per category
+                      </span>
+                    </label>
+                  </>
+                )}
               </div>
-              <p className="text-xs text-secondary-500">
-                * Required fields cannot be deselected
-              </p>
-            </div>
-
-            {/* Additional Options */}
-            <div className="space-y-3">
-              <label className="label">Additional Options</label>
-              <label className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  checked={includePhotos}
-                  onChange={(e) => setIncludePhotos(e.target.checked)}
-                  className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
-                />
-                <span className="text-sm text-secondary-700">
-                  Include photo URLs (when available)
-                </span>
-              </label>
-            </div>
+            )}
 
             {/* Export Summary */}
             <div className="bg-secondary-50 p-4 rounded-lg">
@@ -254,7 +611,13 @@ export default function ExportModal({ isOpen, onClose, businesses }: ExportModal
                 <div>
                   <span className="text-secondary-600">Format: </span>
                   <span className="font-medium text-secondary-900">
-                    {exportType === 'csv' ? 'CSV' : 'Google Sheets'}
+                    {exportType === 'csv'
+                      ? 'CSV'
+                      : exportType === 'xlsx'
+                        ? 'Excel (XLSX)'
+                        : exportType === 'geo'
+                          ? GEO_FORMATS[geoFormat].label
+                          : exportType === 'data' ? DATA_FORMATS[dataFormat].label : 'Google Sheets'}
                   </span>
                 </div>
                 <div>
@@ -278,7 +641,12 @@ export default function ExportModal({ isOpen, onClose, businesses }: ExportModal
             </button>
             <button
               onClick={handleExport}
-              disabled={isExporting || selectedFields.length === 0}
+              disabled={
+                isExporting ||
+                selectedFields.length === 0 ||
+                (exportType === 'sheets' && !sheetName.trim()) ||
+                (exportType === 'geo' && withoutCoordinates.length === businesses.length)
+              }
               className="btn-primary"
             >
               {isExporting ? (
@@ -288,7 +656,7 @@ export default function ExportModal({ isOpen, onClose, businesses }: ExportModal
                 </>
               ) : (
                 <>
-                  {exportType === 'csv' ? (
+                  {exportType !== 'sheets' ? (
                     <Download className="h-4 w-4 mr-2" />
                   ) : (
                     <ExternalLink className="h-4 w-4 mr-2" />
@@ -2,8 +2,10 @@
 
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Filter, Star, Phone, Globe, RefreshCw } from 'lucide-react';
-import { BusinessData, FilterOptions } from '@/types';
+import { X, Filter, Star, Phone, Globe, RefreshCw, Clock, ShieldCheck, MapPin } from 'lucide-react';
+import { BusinessData, FilterOptions, Weekday } from '@/types';
+import { DISPLAY_WEEKDAYS, WEEKDAYS } from '@/utils/hours';
+import { commonAttributes, formatAttributeName } from '@/utils/attributes';
 
 interface FilterSidebarProps {
   isOpen: boolean;
@@ -18,7 +20,11 @@ export default function FilterSidebar({ isOpen, onClose, onFilter, businesses }:
     sortOrder: 'asc'
   });
 
+  const qualityThresholds = [90, 70, 50];
+
   const categories = Array.from(new Set(businesses.map(b => b.category).filter(Boolean)));
+  const cities = Array.from(new Set(businesses.map(b => b.addressComponents?.city).filter(Boolean) as string[])).sort();
+  const attributes = commonAttributes(businesses);
   
   const handleFilterChange = (key: keyof FilterOptions, value: any) => {
     const newFilters = { ...filters, [key]: value };
@@ -26,6 +32,25 @@ export default function FilterSidebar({ isOpen, onClose, onFilter, businesses }:
     onFilter(newFilters);
   };
 
+  const openMode = filters.openNow ? 'now' : filters.openDay ? 'at' : 'any';
+
+  const handleOpenModeChange = (mode: 'any' | 'now' | 'at') => {
+    const newFilters: FilterOptions = {
+      ...filters,
+      openNow: mode === 'now' || undefined,
+      openDay: mode === 'at' ? filters.openDay || WEEKDAYS[new Date().getDay()] : undefined,
+      openTime: mode === 'at' ? filters.openTime || '12:00' : undefined
+    };
+    setFilters(newFilters);
+    onFilter(newFilters);
+  };
+
+  const toggleAttribute = (key: string, checked: boolean) => {
+    const selected = (filters.attributes || []).filter(attribute => attribute !== key);
+    if (checked) selected.push(key);
+    handleFilterChange('attributes', selected.length > 0 ? selected : undefined);
+  };
+
   const clearFilters = () => {
     const defaultFilters: FilterOptions = {
       sortBy: 'name',
@@ -94,6 +119,33 @@ export default function FilterSidebar({ isOpen, onClose, onFilter, businesses }:
               </select>
             </div>
 
+            {/* Location Filter */}
+            <div className="space-y-3">
+              <label className="label">Location</label>
+              <select
+                value={filters.city || ''}
+                onChange={(e) => handleFilterChange('city', e.target.value || undefined)}
+                className="input"
+              >
+                <option value="">All Cities</option>
+                {cities.map((city) => (
+                  <option key={city} value={city}>
+                    {city}
+                  </option>
+                ))}
+              </select>
+              <div className="relative">
+                <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-secondary-400" />
+                <input
+                  type="text"
+                  value={filters.postalCode || ''}
+                  onChange={(e) => handleFilterChange('postalCode', e.target.value.trim() || undefined)}
+                  placeholder="Postal code starts with…"
+                  className="input pl-9"
+                />
+              </div>
+            </div>
+
             {/* Rating Filter */}
             <div className="space-y-3">
               <label className="label">Minimum Rating</label>
@@ -164,6 +216,123 @@ export default function FilterSidebar({ isOpen, onClose, onFilter, businesses }:
               </div>
             </div>
 
+            {/* Data Quality Filter */}
+            <div className="space-y-3">
+              <label className="label">Data Quality</label>
+              <div className="space-y-2">
+                {qualityThresholds.map((threshold) => (
+                  <label key={threshold} className="flex items-center space-x-2">
+                    <input
+                      type="radio"
+                      name="quality"
+                      checked={filters.minQualityScore === threshold}
+                      onChange={() => handleFilterChange('minQualityScore', threshold)}
+                      className="text-primary-600 focus:ring-primary-500"
+                    />
+                    <ShieldCheck className="h-4 w-4 text-secondary-400" />
+                    <span className="text-sm text-secondary-700">Score {threshold} & up</span>
+                  </label>
+                ))}
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    name="quality"
+                    checked={!filters.minQualityScore}
+                    onChange={() => handleFilterChange('minQualityScore', undefined)}
+                    className="text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-secondary-700">Any quality</span>
+                </label>
+                <p className="text-xs text-secondary-500">
+                  Scores weigh how reliably name, address, phone, website, category and rating were read
+                </p>
+              </div>
+            </div>
+
+            {/* Opening Hours Filter */}
+            <div className="space-y-3">
+              <label className="label">Opening Hours</label>
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    name="openMode"
+                    checked={openMode === 'any'}
+                    onChange={() => handleOpenModeChange('any')}
+                    className="text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-secondary-700">Any time</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    name="openMode"
+                    checked={openMode === 'now'}
+                    onChange={() => handleOpenModeChange('now')}
+                    className="text-primary-600 focus:ring-primary-500"
+                  />
+                  <Clock className="h-4 w-4 text-secondary-400" />
+                  <span className="text-sm text-secondary-700">Open now</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    name="openMode"
+                    checked={openMode === 'at'}
+                    onChange={() => handleOpenModeChange('at')}
+                    className="text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-secondary-700">Open on</span>
+                </label>
+                {openMode === 'at' && (
+                  <div className="flex items-center space-x-2 pl-6">
+                    <select
+                      value={filters.openDay}
+                      onChange={(e) => handleFilterChange('openDay', e.target.value as Weekday)}
+                      className="input"
+                    >
+                      {DISPLAY_WEEKDAYS.map((day) => (
+                        <option key={day} value={day}>
+                          {day.charAt(0).toUpperCase() + day.slice(1)}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-secondary-700">at</span>
+                    <input
+                      type="time"
+                      value={filters.openTime || ''}
+                      onChange={(e) => handleFilterChange('openTime', e.target.value || undefined)}
+                      className="input"
+                    />
+                  </div>
+                )}
+                <p className="text-xs text-secondary-500">
+                  Times are each business's local time. Businesses without listed hours are hidden by this filter
+                </p>
+              </div>
+            </div>
+
+            {/* Attribute Filter */}
+            {attributes.length > 0 && (
+              <div className="space-y-3">
+                <label className="label">Attributes</label>
+                <div className="space-y-2">
+                  {attributes.map(({ key, count }) => (
+                    <label key={key} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={filters.attributes?.includes(key) || false}
+                        onChange={(e) => toggleAttribute(key, e.target.checked)}
+                        className="rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span className="text-sm text-secondary-700 flex-1">{formatAttributeName(key)}</span>
+                      <span className="text-xs text-secondary-400">{count}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Sort Options */}
             <div className="space-y-3">
               <label className="label">Sort By</label>
@@ -5,9 +5,23 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Search, MapPin, Phone, Globe, Star, Clock, ArrowUpDown, 
   ChevronLeft, ChevronRight, MoreHorizontal, ExternalLink,
-  Filter, SortAsc, SortDesc, Eye, Loader2
+  Filter, SortAsc, SortDesc, Eye, Loader2, ShieldCheck,
+  Mail, Send, Facebook, Instagram, Linkedin, Twitter, MessageSquare,
+  Activity, Tags
 } from 'lucide-react';
-import { BusinessData } from '@/types';
+import { BusinessData, SocialNetwork } from '@/types';
+import { formatQualityFlags } from '@/lib/quality';
+import { formatPhone, phoneHref } from '@/utils/phone';
+import { SOCIAL_NETWORKS } from '@/utils/social';
+import { formatAttributeName } from '@/utils/attributes';
+import BusynessChart from '@/components/BusynessChart';
+
+const SOCIAL_ICONS: Record<SocialNetwork, React.ElementType> = {
+  facebook: Facebook,
+  instagram: Instagram,
+  linkedin: Linkedin,
+  x: Twitter
+};
 
 interface InfiniteScrollBusinessTableProps {
   businesses: BusinessData[];
@@ -129,11 +143,6 @@ export default function InfiniteScrollBusinessTable({
   };
 
   // Format phone number
-  const formatPhone = (phone?: string) => {
-    if (!phone) return null;
-    return phone.replace(/(\d{3})(\d{3})(\d{4})/, '($1) $2-$3');
-  };
-
   const SortButton = ({ field, children }: { field: SortField; children: React.ReactNode }) => (
     <button
       onClick={() => handleSort(field)}
@@ -265,9 +274,12 @@ export default function InfiniteScrollBusinessTable({
                           {business.phone && (
                             <div className="text-sm text-secondary-900 flex items-center">
                               <Phone className="h-3 w-3 mr-1 flex-shrink-0" />
-                              <a href={`tel:${business.phone}`} className="hover:text-primary-600">
-                                {formatPhone(business.phone)}
+                              <a href={phoneHref(business.phone, business.phoneDetails)} className="hover:text-primary-600">
+                                {formatPhone(business.phone, business.phoneDetails)}
                               </a>
+                              {business.phoneDetails?.valid === false && (
+                                <span className="ml-1 text-xs text-error-600" title="Not a valid number for its country">invalid</span>
+                              )}
                             </div>
                           )}
                           {business.website && (
@@ -283,6 +295,17 @@ export default function InfiniteScrollBusinessTable({
                               </a>
                             </div>
                           )}
+                          {business.emails && business.emails.length > 0 && (
+                            <div className="text-sm text-secondary-900 flex items-center">
+                              <Mail className="h-3 w-3 mr-1 flex-shrink-0" />
+                              <a href={`mailto:${business.emails[0]}`} className="hover:text-primary-600 truncate max-w-xs">
+                                {business.emails[0]}
+                              </a>
+                              {business.emails.length > 1 && (
+                                <span className="ml-1 text-xs text-secondary-500">+{business.emails.length - 1}</span>
+                              )}
+                            </div>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4">
@@ -308,6 +331,11 @@ export default function InfiniteScrollBusinessTable({
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
                           {business.category || 'Business'}
                         </span>
+                        {business.priceLevel && (
+                          <span className="ml-2 text-xs font-medium text-secondary-600">
+                            {business.priceLevel}
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-right text-sm font-medium">
                         <button
@@ -370,7 +398,7 @@ export default function InfiniteScrollBusinessTable({
                     </span>
                     <div className="flex items-center space-x-2">
                       {business.phone && (
-                        <a href={`tel:${business.phone}`} className="text-secondary-400 hover:text-secondary-600">
+                        <a href={phoneHref(business.phone, business.phoneDetails)} className="text-secondary-400 hover:text-secondary-600">
                           <Phone className="h-3 w-3" />
                         </a>
                       )}
@@ -476,7 +504,24 @@ export default function InfiniteScrollBusinessTable({
                 </button>
               </div>
               
+              {selectedBusiness.photos && selectedBusiness.photos.length > 0 && (
+                <div className="flex space-x-2 overflow-x-auto mb-4">
+                  {selectedBusiness.photos.map(photo => (
+                    <img
+                      key={photo}
+                      src={photo}
+                      alt={selectedBusiness.name}
+                      className="h-24 w-32 object-cover rounded flex-shrink-0"
+                    />
+                  ))}
+                </div>
+              )}
+
               <div className="space-y-4">
+                {selectedBusiness.description && (
+                  <p className="text-sm text-secondary-600">{selectedBusiness.description}</p>
+                )}
+
                 <div className="flex items-start">
                   <MapPin className="h-4 w-4 text-secondary-500 mt-1 mr-2 flex-shrink-0" />
                   <span className="text-secondary-700">{selectedBusiness.address}</span>
@@ -485,9 +530,14 @@ export default function InfiniteScrollBusinessTable({
                 {selectedBusiness.phone && (
                   <div className="flex items-center">
                     <Phone className="h-4 w-4 text-secondary-500 mr-2 flex-shrink-0" />
-                    <a href={`tel:${selectedBusiness.phone}`} className="text-primary-600 hover:text-primary-700">
-                      {formatPhone(selectedBusiness.phone)}
+                    <a href={phoneHref(selectedBusiness.phone, selectedBusiness.phoneDetails)} className="text-primary-600 hover:text-primary-700">
+                      {formatPhone(selectedBusiness.phone, selectedBusiness.phoneDetails)}
                     </a>
+                    {selectedBusiness.phoneDetails?.valid === false ? (
+                      <span className="ml-2 text-xs text-error-600">Invalid number</span>
+                    ) : selectedBusiness.phoneDetails?.type && (
+                      <span className="ml-2 text-xs text-secondary-500">{selectedBusiness.phoneDetails.type}</span>
+                    )}
                   </div>
                 )}
                 
@@ -504,6 +554,59 @@ export default function InfiniteScrollBusinessTable({
                     </a>
                   </div>
                 )}
+
+                {selectedBusiness.emails && selectedBusiness.emails.length > 0 && (
+                  <div className="flex items-start">
+                    <Mail className="h-4 w-4 text-secondary-500 mt-1 mr-2 flex-shrink-0" />
+                    <div className="space-y-1 min-w-0">
+                      {selectedBusiness.emails.map(email => (
+                        <a key={email} href={`mailto:${email}`} className="block text-primary-600 hover:text-primary-700 truncate">
+                          {email}
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selectedBusiness.contactFormUrl && (
+                  <div className="flex items-center">
+                    <Send className="h-4 w-4 text-secondary-500 mr-2 flex-shrink-0" />
+                    <a
+                      href={selectedBusiness.contactFormUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary-600 hover:text-primary-700 truncate"
+                    >
+                      Contact form
+                    </a>
+                  </div>
+                )}
+
+                {selectedBusiness.socialProfiles && (
+                  <div className="flex items-center space-x-3">
+                    {SOCIAL_NETWORKS.filter(network => selectedBusiness.socialProfiles?.[network.id]).map(network => {
+                      const Icon = SOCIAL_ICONS[network.id];
+                      return (
+                        <a
+                          key={network.id}
+                          href={selectedBusiness.socialProfiles![network.id]}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={network.label}
+                          className="text-secondary-500 hover:text-primary-600"
+                        >
+                          <Icon className="h-4 w-4" />
+                        </a>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {selectedBusiness.enrichment?.error && (
+                  <p className="text-xs text-secondary-500">
+                    Website not enriched: {selectedBusiness.enrichment.error}
+                  </p>
+                )}
                 
                 {selectedBusiness.rating && (
                   <div className="flex items-center">
@@ -522,10 +625,99 @@ export default function InfiniteScrollBusinessTable({
                   </div>
                 )}
                 
-                <div className="pt-4 border-t border-secondary-200">
+                {selectedBusiness.quality && (
+                  <div className="flex items-start">
+                    <ShieldCheck className={`h-4 w-4 mt-1 mr-2 flex-shrink-0 ${
+                      selectedBusiness.quality.score >= 70 ? 'text-success-500' : 'text-error-500'
+                    }`} />
+                    <div>
+                      <span className="text-secondary-700">
+                        Data quality {selectedBusiness.quality.score}/100
+                      </span>
+                      {formatQualityFlags(selectedBusiness.quality) && (
+                        <p className="text-xs text-secondary-500">{formatQualityFlags(selectedBusiness.quality)}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {selectedBusiness.attributes && Object.keys(selectedBusiness.attributes).length > 0 && (
+                  <div className="flex items-start">
+                    <Tags className="h-4 w-4 text-secondary-500 mt-1 mr-2 flex-shrink-0" />
+                    <div className="flex flex-wrap gap-1">
+                      {Object.keys(selectedBusiness.attributes).map(key => (
+                        <span
+                          key={key}
+                          className={`px-2 py-0.5 rounded-full text-xs ${
+                            selectedBusiness.attributes![key]
+                              ? 'bg-success-100 text-success-800'
+                              : 'bg-secondary-100 text-secondary-500 line-through'
+                          }`}
+                        >
+                          {formatAttributeName(key)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selectedBusiness.popularTimes && Object.keys(selectedBusiness.popularTimes).length > 0 && (
+                  <div className="pt-4 border-t border-secondary-200">
+                    <h4 className="flex items-center text-sm font-medium text-secondary-900 mb-2">
+                      <Activity className="h-4 w-4 text-secondary-500 mr-2" />
+                      Popular times
+                    </h4>
+                    <BusynessChart popularTimes={selectedBusiness.popularTimes} />
+                  </div>
+                )}
+
+                {selectedBusiness.reviews && selectedBusiness.reviews.length > 0 && (
+                  <div className="pt-4 border-t border-secondary-200">
+                    <h4 className="flex items-center text-sm font-medium text-secondary-900 mb-2">
+                      <MessageSquare className="h-4 w-4 text-secondary-500 mr-2" />
+                      {selectedBusiness.reviews.length} reviews
+                    </h4>
+                    <div className="space-y-3 max-h-64 overflow-y-auto pr-1">
+                      {selectedBusiness.reviews.map(review => (
+                        <div key={review.id} className="text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium text-secondary-900 truncate">{review.author}</span>
+                            <span className="flex items-center text-xs text-secondary-500 flex-shrink-0 ml-2">
+                              {review.rating && (
+                                <>
+                                  <Star className="h-3 w-3 text-yellow-400 mr-1" />
+                                  {review.rating}
+                                </>
+                              )}
+                              {review.date && <span className="ml-2">{review.date}</span>}
+                              {review.language && <span className="ml-2 uppercase">{review.language}</span>}
+                            </span>
+                          </div>
+                          {review.text && (
+                            <p className="text-secondary-700 mt-1 whitespace-pre-line">{review.text}</p>
+                          )}
+                          {review.ownerResponse && (
+                            <div className="mt-2 ml-3 pl-3 border-l-2 border-secondary-200 text-xs text-secondary-600">
+                              <span className="font-medium">Owner response{review.ownerResponse.date && ` · ${review.ownerResponse.date}`}: </span>
+                              {review.ownerResponse.text}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="pt-4 border-t border-secondary-200 flex items-center justify-between">
                   <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-primary-100 text-primary-800">
                     {selectedBusiness.category || 'Business'}
+                    {selectedBusiness.priceLevel && ` · ${selectedBusiness.priceLevel}`}
                   </span>
+                  {selectedBusiness.placeId && (
+                    <span className="text-xs text-secondary-400 truncate ml-2" title="Place ID">
+                      {selectedBusiness.placeId}
+                    </span>
+                  )}
                 </div>
               </div>
             </motion.div>
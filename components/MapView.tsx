@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import Map, { Marker, Popup, Source, Layer, NavigationControl, ScaleControl, FullscreenControl } from 'react-map-gl';
 import { MapPin, Phone, Globe, Star, Clock, Navigation, Layers, Search, Filter, X, AlertCircle, Expand, Eye, BarChart3 } from 'lucide-react';
 import { BusinessData } from '@/types';
+import { formatPhone, phoneHref } from '@/utils/phone';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
 interface MapViewProps {
@@ -225,11 +226,6 @@ export default function MapView({ businesses, searchLocation, searchRadius = 500
   };
 
   // Format phone number
-  const formatPhone = (phone?: string) => {
-    if (!phone) return null;
-    return phone.replace(/(\d{3})(\d{3})(\d{4})/, '($1) $2-$3');
-  };
-
   // Fit map to show all businesses
   const fitToBounds = () => {
     if (!mapRef.current || filteredBusinesses.length === 0) return;
@@ -636,19 +632,26 @@ export default function MapView({ businesses, searchLocation, searchRadius = 500
                     <h3 className="font-bold text-secondary-900 text-base leading-snug pr-2">
                       {selectedBusiness.name}
                     </h3>
-                    {selectedBusiness.rating && (
+                    {(selectedBusiness.rating || selectedBusiness.priceLevel) && (
                       <div className="flex items-center mt-2">
-                        <div className="flex items-center bg-yellow-50 px-2 py-1 rounded-full">
-                          <Star className="h-3 w-3 text-yellow-500 mr-1" />
-                          <span className="text-xs font-semibold text-yellow-700">
-                            {selectedBusiness.rating.toFixed(1)}
-                          </span>
-                        </div>
-                        {selectedBusiness.reviewCount && (
+                        {selectedBusiness.rating && (
+                          <div className="flex items-center bg-yellow-50 px-2 py-1 rounded-full">
+                            <Star className="h-3 w-3 text-yellow-500 mr-1" />
+                            <span className="text-xs font-semibold text-yellow-700">
+                              {selectedBusiness.rating.toFixed(1)}
+                            </span>
+                          </div>
+                        )}
+                        {selectedBusiness.rating && selectedBusiness.reviewCount && (
                           <span className="text-xs text-secondary-500 ml-2">
                             ({selectedBusiness.reviewCount} reviews)
                           </span>
                         )}
+                        {selectedBusiness.priceLevel && (
+                          <span className="text-xs font-semibold text-secondary-600 ml-2">
+                            {selectedBusiness.priceLevel}
+                          </span>
+                        )}
                       </div>
                     )}
                   </div>
@@ -660,8 +663,20 @@ export default function MapView({ businesses, searchLocation, searchRadius = 500
                   </button>
                 </div>
 
+                {selectedBusiness.photos && selectedBusiness.photos.length > 0 && (
+                  <img
+                    src={selectedBusiness.photos[0]}
+                    alt={selectedBusiness.name}
+                    className="w-full h-28 object-cover rounded-lg mb-4"
+                  />
+                )}
+
                 {/* Content */}
                 <div className="space-y-3 text-sm">
+                  {selectedBusiness.description && (
+                    <p className="text-secondary-600 leading-relaxed">{selectedBusiness.description}</p>
+                  )}
+
                   <div className="flex items-start">
                     <div className="bg-secondary-100 rounded-full p-1.5 mr-3 mt-0.5">
                       <MapPin className="h-3 w-3 text-secondary-600" />
@@ -675,11 +690,14 @@ export default function MapView({ businesses, searchLocation, searchRadius = 500
                         <Phone className="h-3 w-3 text-green-600" />
                       </div>
                       <a 
-                        href={`tel:${selectedBusiness.phone}`} 
+                        href={phoneHref(selectedBusiness.phone, selectedBusiness.phoneDetails)} 
                         className="text-primary-600 hover:text-primary-700 font-medium transition-colors"
                       >
-                        {formatPhone(selectedBusiness.phone)}
+                        {formatPhone(selectedBusiness.phone, selectedBusiness.phoneDetails)}
                       </a>
+                      {selectedBusiness.phoneDetails?.valid === false && (
+                        <span className="ml-2 text-xs text-error-600">Invalid number</span>
+                      )}
                     </div>
                   )}
 
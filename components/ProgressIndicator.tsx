@@ -17,6 +17,14 @@ interface ProgressIndicatorProps {
   progress: ScrapingProgress;
 }
 
+const formatCacheAge = (ageMs: number): string => {
+  const minutes = Math.round(ageMs / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+};
+
 export default function ProgressIndicator({ progress }: ProgressIndicatorProps) {
   const getStatusIcon = () => {
     switch (progress.status) {
@@ -132,6 +140,51 @@ export default function ProgressIndicator({ progress }: ProgressIndicatorProps)
           </div>
         )}
 
+        {/* Per-Category Breakdown */}
+        {progress.categories && progress.categories.length > 0 && (
+          <div className="space-y-1 mb-4">
+            {progress.categories.map(category => (
+              <div key={category.category} className="flex items-center justify-between text-xs text-secondary-600">
+                <span className="truncate mr-2">{category.category}</span>
+                <span>
+                  {category.scraped} / {category.found}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Area Sweep Cells */}
+        {progress.cellsDone !== undefined && (
+          <div className="flex items-center justify-between text-xs text-secondary-600 mb-2">
+            <span>Area sweep</span>
+            <span>
+              {progress.cellsDone} cells done &middot; {progress.cellsRemaining || 0} remaining
+            </span>
+          </div>
+        )}
+
+        {/* Search Cache Freshness */}
+        {progress.searchCacheAgeMs !== undefined && (
+          <div className="flex items-center justify-between text-xs text-secondary-600 mb-2">
+            <span>Candidate list from cache</span>
+            <span>
+              <Clock className="h-3 w-3 inline mr-1" />
+              Searched {formatCacheAge(progress.searchCacheAgeMs)}
+            </span>
+          </div>
+        )}
+
+        {/* Place Cache Stats */}
+        {((progress.cacheHits || 0) + (progress.cacheMisses || 0)) > 0 && (
+          <div className="flex items-center justify-between text-xs text-secondary-600 mb-4">
+            <span>Place cache</span>
+            <span>
+              {progress.cacheHits || 0} hits &middot; {progress.cacheMisses || 0} misses
+            </span>
+          </div>
+        )}
+
         {/* Processing Steps Visualization */}
         {progress.status === 'scraping' && (
           <div className="space-y-2">
@@ -34,12 +34,17 @@ export default function SearchForm({ onSearch, isLoading }: SearchFormProps) {
       categories: [],
       radius: 5000,
       maxResults: 100,
-      searchMode: 'full'
+      searchMode: 'full',
+      forceRefresh: false,
+      areaSweep: false,
+      enrichWebsites: false,
+      includeReviews: false,
+      maxReviews: 20
     }
   });
 
   const watchedValues = watch();
-  const hasAdvancedSettings = watchedValues.radius !== 5000 || watchedValues.categories.length > 0;
+  const hasAdvancedSettings = watchedValues.radius !== 5000 || watchedValues.categories.length > 0 || !!watchedValues.forceRefresh || !!watchedValues.areaSweep || !!watchedValues.enrichWebsites || !!watchedValues.includeReviews;
   const hasCustomLimits = watchedValues.maxResults !== 100 || watchedValues.searchMode !== 'full';
 
   const onSubmit = (data: SearchParams) => {
@@ -258,6 +263,123 @@ export default function SearchForm({ onSearch, isLoading }: SearchFormProps) {
                   </div>
                 </div>
               </div>
+
+              {/* Force Refresh */}
+              <Controller
+                name="forceRefresh"
+                control={control}
+                render={({ field }) => (
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                      className="mt-1 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                      disabled={isLoading}
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-secondary-900">Force refresh</div>
+                      <div className="text-xs text-secondary-500">
+                        Ignore cached search results and scroll Google Maps again
+                      </div>
+                    </div>
+                  </label>
+                )}
+              />
+
+              {/* Area Sweep */}
+              <Controller
+                name="areaSweep"
+                control={control}
+                render={({ field }) => (
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                      className="mt-1 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                      disabled={isLoading || !watchedValues.coordinates}
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-secondary-900">Area sweep</div>
+                      <div className="text-xs text-secondary-500">
+                        {watchedValues.coordinates
+                          ? 'Search the radius as a grid of smaller areas to get past the ~120 result limit per search'
+                          : 'Pick a location with coordinates to enable grid searching'}
+                      </div>
+                    </div>
+                  </label>
+                )}
+              />
+
+              {/* Website Enrichment */}
+              <Controller
+                name="enrichWebsites"
+                control={control}
+                render={({ field }) => (
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                      className="mt-1 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                      disabled={isLoading}
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-secondary-900">Enrich from websites</div>
+                      <div className="text-xs text-secondary-500">
+                        Visit each business website and its contact pages for emails, social profiles and a contact form. Slower; respects robots.txt
+                      </div>
+                    </div>
+                  </label>
+                )}
+              />
+
+              {/* Reviews */}
+              <Controller
+                name="includeReviews"
+                control={control}
+                render={({ field }) => (
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                      className="mt-1 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                      disabled={isLoading}
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-secondary-900">Collect reviews</div>
+                      <div className="text-xs text-secondary-500">
+                        Open the reviews panel of each place and save author, rating, date, text and owner response. Adds several seconds per business
+                      </div>
+                    </div>
+                  </label>
+                )}
+              />
+              {watchedValues.includeReviews && (
+                <Controller
+                  name="maxReviews"
+                  control={control}
+                  render={({ field }) => (
+                    <div className="ml-7 flex items-center space-x-2">
+                      <input
+                        type="number"
+                        min={1}
+                        max={200}
+                        value={field.value ?? 20}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                        className="input w-24"
+                        disabled={isLoading}
+                      />
+                      <span className="text-sm text-secondary-600">reviews per business</span>
+                      {errors.maxReviews && (
+                        <p className="text-error-600 text-sm">{errors.maxReviews.message}</p>
+                      )}
+                    </div>
+                  )}
+                />
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -0,0 +1,125 @@
+import puppeteer, { Browser } from 'puppeteer-core';
+import chromium from '@sparticuz/chromium';
+
+// Where the scraper gets its browser from. `release` undoes `acquire`: launched
+// browsers are closed, connected ones are only disconnected so they stay up
+export interface BrowserProvider {
+  name: string;
+  acquire(): Promise<Browser>;
+  release(browser: Browser): Promise<void>;
+}
+
+export const DEFAULT_MAPS_ORIGIN = 'https://www.google.com';
+
+const LOCAL_LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--window-size=1920,1080'
+];
+
+// @sparticuz/chromium build for Vercel and other serverless hosts
+export class ServerlessChromiumProvider implements BrowserProvider {
+  name = 'serverless-chromium';
+
+  async acquire(): Promise<Browser> {
+    console.log('🔧 Setting up Chromium for Vercel...');
+    const executablePath = await chromium.executablePath();
+
+    return puppeteer.launch({
+      args: chromium.args,
+      defaultViewport: chromium.defaultViewport,
+      executablePath,
+      headless: chromium.headless,
+      ignoreHTTPSErrors: true,
+    });
+  }
+
+  async release(browser: Browser): Promise<void> {
+    await browser.close();
+  }
+}
+
+// Local Chrome for development: puppeteer's bundled build unless an executable is given
+export class LocalBrowserProvider implements BrowserProvider {
+  name = 'local';
+
+  constructor(private executablePath: string | undefined = process.env.PUPPETEER_EXECUTABLE_PATH) {}
+
+  async acquire(): Promise<Browser> {
+    if (this.executablePath) {
+      return puppeteer.launch({
+        headless: true,
+        executablePath: this.executablePath,
+        args: LOCAL_LAUNCH_ARGS
+      });
+    }
+
+    // puppeteer (not puppeteer-core) knows where its downloaded Chrome lives
+    const puppeteerDev = require('puppeteer');
+    return puppeteerDev.launch({
+      headless: 'new',
+      args: LOCAL_LAUNCH_ARGS
+    });
+  }
+
+  async release(browser: Browser): Promise<void> {
+    await browser.close();
+  }
+}
+
+// An already running browser (browserless, a Chrome started with --remote-debugging-port, ...)
+export class RemoteBrowserProvider implements BrowserProvider {
+  name = 'remote';
+
+  constructor(private browserWSEndpoint: string) {}
+
+  async acquire(): Promise<Browser> {
+    return puppeteer.connect({
+      browserWSEndpoint: this.browserWSEndpoint,
+      defaultViewport: { width: 1920, height: 1080 }
+    });
+  }
+
+  async release(browser: Browser): Promise<void> {
+    await browser.disconnect();
+  }
+}
+
+// BROWSER_WS_ENDPOINT wins; otherwise BROWSER_PROVIDER, falling back to serverless
+// Chromium in production and local Chrome everywhere else
+export function createBrowserProviderFromEnv(): BrowserProvider {
+  if (process.env.BROWSER_WS_ENDPOINT) {
+    return new RemoteBrowserProvider(process.env.BROWSER_WS_ENDPOINT);
+  }
+
+  switch (process.env.BROWSER_PROVIDER) {
+    case 'local':
+      return new LocalBrowserProvider();
+    case 'serverless':
+      return new ServerlessChromiumProvider();
+    case 'remote':
+      throw new Error('BROWSER_PROVIDER=remote requires BROWSER_WS_ENDPOINT');
+  }
+
+  const isProduction = process.env.VERCEL_ENV === 'production' || process.env.NODE_ENV === 'production';
+  return isProduction ? new ServerlessChromiumProvider() : new LocalBrowserProvider();
+}
+
+let browserProvider: BrowserProvider | null = null;
+
+export function getBrowserProvider(): BrowserProvider {
+  if (!browserProvider) {
+    browserProvider = createBrowserProviderFromEnv();
+  }
+  return browserProvider;
+}
+
+export function setBrowserProvider(provider: BrowserProvider): void {
+  browserProvider = provider;
+}
+
+// Origin the scraper sends Maps searches to; point it at the mock server to run offline
+export function getMapsOrigin(): string {
+  return (process.env.MAPS_ORIGIN || DEFAULT_MAPS_ORIGIN).replace(/\/+$/, '');
+}
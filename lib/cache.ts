@@ -1 +1,225 @@
- 
\ No newline at end of file
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BusinessData, SearchParams } from '@/types';
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheHit<T> {
+  value: T;
+  storedAt: Date;
+  ageMs: number;
+}
+
+interface PersistentCacheOptions<T> {
+  name: string;
+  ttlMs: number;
+  directory?: string;
+  // Restore non-JSON types (e.g. Dates) after reading from disk
+  revive?: (value: any) => T;
+}
+
+const DEFAULT_CACHE_DIR = process.env.CACHE_DIR || path.join(process.cwd(), '.data', 'cache');
+
+// Key/value cache with per-entry expiry, held in memory and mirrored to a JSON file
+export class PersistentCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private filePath: string;
+  private ttlMs: number;
+  private revive?: (value: any) => T;
+  private loadPromise: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(options: PersistentCacheOptions<T>) {
+    this.ttlMs = options.ttlMs;
+    this.revive = options.revive;
+    this.filePath = path.join(options.directory || DEFAULT_CACHE_DIR, `${options.name}.json`);
+  }
+
+  isEnabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  async get(key: string): Promise<CacheHit<T> | null> {
+    if (!this.isEnabled()) return null;
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    const now = Date.now();
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      this.scheduleFlush();
+      return null;
+    }
+
+    return {
+      value: entry.value,
+      storedAt: new Date(entry.storedAt),
+      ageMs: now - entry.storedAt
+    };
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (!this.isEnabled()) return;
+    await this.load();
+
+    const now = Date.now();
+    this.entries.set(key, { value, storedAt: now, expiresAt: now + this.ttlMs });
+    this.scheduleFlush();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.load();
+    if (this.entries.delete(key)) {
+      this.scheduleFlush();
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const content = await fs.readFile(this.filePath, 'utf8');
+          const stored: Record<string, CacheEntry<any>> = JSON.parse(content);
+          const now = Date.now();
+
+          Object.keys(stored).forEach(key => {
+            const entry = stored[key];
+            if (entry.expiresAt > now) {
+              this.entries.set(key, {
+                ...entry,
+                value: this.revive ? this.revive(entry.value) : entry.value
+              });
+            }
+          });
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') {
+            console.error(`⚠️ Failed to load cache ${this.filePath}:`, error.message);
+          }
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  // Coalesce writes: at most one flush in flight, followed by one more if anything changed meanwhile
+  private scheduleFlush(): void {
+    if (this.flushing) {
+      this.dirty = true;
+      return;
+    }
+
+    this.flushing = this.flush()
+      .catch(error => console.error(`⚠️ Failed to write cache ${this.filePath}:`, error.message))
+      .then(() => {
+        this.flushing = null;
+        if (this.dirty) {
+          this.dirty = false;
+          this.scheduleFlush();
+        }
+      });
+  }
+
+  private async flush(): Promise<void> {
+    const snapshot: Record<string, CacheEntry<T>> = {};
+    this.entries.forEach((entry, key) => {
+      snapshot[key] = entry;
+    });
+
+    const temp = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(temp, this.filePath);
+  }
+}
+
+// Feature ID from the `data=` segment (!1s0x…:0x…) or a ChIJ place ID
+const FEATURE_ID_PATTERN = /!1s(0x[0-9a-f]+:0x[0-9a-f]+)/i;
+const PLACE_ID_PATTERN = /(ChIJ[\w-]{20,})/;
+
+// Place ID carried by a Maps URL, if any
+export function extractPlaceId(url: string): string | undefined {
+  const featureMatch = url.match(FEATURE_ID_PATTERN);
+  if (featureMatch) return featureMatch[1].toLowerCase();
+
+  const placeIdMatch = url.match(PLACE_ID_PATTERN);
+  if (placeIdMatch) return placeIdMatch[1];
+
+  return undefined;
+}
+
+// Stable cache key for a place: its ID when the URL carries one, otherwise the
+// place path without the viewport (@lat,lng,zoom) and tracking query parameters
+export function normalizePlaceKey(url: string): string {
+  const placeId = extractPlaceId(url);
+  if (placeId) return `place:${placeId}`;
+
+  try {
+    const { pathname } = new URL(url, 'https://www.google.com');
+    const placePath = decodeURIComponent(pathname)
+      .split('/')
+      .filter(segment => segment && !segment.startsWith('@') && !segment.startsWith('data='))
+      .join('/')
+      .toLowerCase();
+    return `url:${placePath}`;
+  } catch (error) {
+    return `url:${url.toLowerCase()}`;
+  }
+}
+
+const DEFAULT_PLACE_CACHE_TTL_HOURS = 24;
+
+// Reviews are capped per search, so entries remember the cap they were scraped with
+export type CachedPlace = BusinessData & { reviewLimit?: number };
+
+let placeCache: PersistentCache<CachedPlace> | null = null;
+
+// Scraped place details, keyed by normalizePlaceKey(). PLACE_CACHE_TTL_HOURS=0 disables it
+export function getPlaceCache(): PersistentCache<CachedPlace> {
+  if (!placeCache) {
+    const ttlHours = parseFloat(process.env.PLACE_CACHE_TTL_HOURS || `${DEFAULT_PLACE_CACHE_TTL_HOURS}`);
+    placeCache = new PersistentCache<CachedPlace>({
+      name: 'places',
+      ttlMs: (isNaN(ttlHours) ? DEFAULT_PLACE_CACHE_TTL_HOURS : ttlHours) * 60 * 60 * 1000,
+      revive: (business) => ({ ...business, scrapedAt: new Date(business.scrapedAt) })
+    });
+  }
+  return placeCache;
+}
+
+// Cache key for a search: categories (order-insensitive), location, radius and anchor point
+export function normalizeSearchKey(params: SearchParams): string {
+  const categories = params.categories
+    .map(category => category.trim().toLowerCase())
+    .filter(Boolean)
+    .sort()
+    .join('|');
+  const location = params.location.trim().toLowerCase().replace(/\s+/g, ' ');
+  const anchor = params.coordinates
+    ? `${params.coordinates.lat.toFixed(3)},${params.coordinates.lng.toFixed(3)}`
+    : '';
+
+  return [categories || '*', location, params.radius, anchor].join('::');
+}
+
+const DEFAULT_SEARCH_CACHE_TTL_HOURS = 6;
+
+let searchCache: PersistentCache<string[]> | null = null;
+
+// Place links discovered for a search, keyed by normalizeSearchKey(). SEARCH_CACHE_TTL_HOURS=0 disables it
+export function getSearchCache(): PersistentCache<string[]> {
+  if (!searchCache) {
+    const ttlHours = parseFloat(process.env.SEARCH_CACHE_TTL_HOURS || `${DEFAULT_SEARCH_CACHE_TTL_HOURS}`);
+    searchCache = new PersistentCache<string[]>({
+      name: 'searches',
+      ttlMs: (isNaN(ttlHours) ? DEFAULT_SEARCH_CACHE_TTL_HOURS : ttlHours) * 60 * 60 * 1000
+    });
+  }
+  return searchCache;
+}
@@ -0,0 +1,260 @@
+import { BusinessData } from '@/types';
+import { haversineDistance } from '@/utils/geo';
+
+// Pure helpers shared by the scraper and the client; keep server-only imports out
+
+export interface DuplicateCluster {
+  // Sorted member IDs, stable across renders so a dismissal sticks
+  key: string;
+  members: BusinessData[];
+  reasons: string[];
+  merged: BusinessData;
+}
+
+// Similar-name threshold (bigram Dice coefficient) for records close to each other
+const NAME_MATCH_THRESHOLD = 0.85;
+// Looser threshold when the records share a phone number
+const NAME_WITH_PHONE_THRESHOLD = 0.5;
+const NEARBY_METERS = 100;
+const PHONE_NEARBY_METERS = 500;
+
+// Placeholders buildBusiness() writes when the page had no value
+const EMPTY_VALUES = ['Unknown Business', 'Address not available'];
+
+// Fields derived from another one come from the same record, so a merged
+// phone never carries another record's E.164 number
+const DERIVED_FIELDS: Record<string, string> = {
+  phoneDetails: 'phone',
+  addressComponents: 'address',
+  openingHours: 'hours'
+};
+
+// Words that differ between listings of the same place
+const NAME_NOISE = /\b(the|and|llc|inc|ltd|limited|co|corp|gmbh|sarl|srl|sa)\b/g;
+
+// FNV-1a, for a short ID from URL-based keys
+function hashKey(key: string): string {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    value ^= key.charCodeAt(i);
+    value = Math.imul(value, 0x01000193) >>> 0;
+  }
+  return value.toString(16).padStart(8, '0');
+}
+
+// ID that is the same every time a place is scraped, from its place key
+// (`place:<id>` or `url:<canonical path>`, see normalizePlaceKey())
+export function stableBusinessId(placeKey: string): string {
+  if (placeKey.startsWith('place:')) {
+    return `place_${placeKey.slice('place:'.length)}`;
+  }
+  return `url_${hashKey(placeKey)}`;
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(NAME_NOISE, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/\s+/g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2));
+  }
+  return pairs;
+}
+
+// Dice coefficient over character bigrams of the normalized names, 0–1
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  if (leftPairs.length === 0 || rightPairs.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  rightPairs.forEach(pair => remaining.set(pair, (remaining.get(pair) || 0) + 1));
+
+  let shared = 0;
+  leftPairs.forEach(pair => {
+    const count = remaining.get(pair) || 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(pair, count - 1);
+    }
+  });
+
+  return (2 * shared) / (leftPairs.length + rightPairs.length);
+}
+
+// Why `a` and `b` look like the same place, or null when they don't
+export function matchReason(a: BusinessData, b: BusinessData): string | null {
+  if (a.id === b.id) return 'same place ID';
+  if (a.placeId && b.placeId) return null;
+
+  const phoneA = a.phoneDetails?.e164;
+  const phoneB = b.phoneDetails?.e164;
+  const samePhone = Boolean(phoneA && phoneA === phoneB);
+  // Two valid, different numbers: branches of a chain, not duplicates
+  if (phoneA && phoneB && !samePhone) return null;
+
+  const distance = a.coordinates && b.coordinates ? haversineDistance(a.coordinates, b.coordinates) : undefined;
+
+  // Cheap checks first: name similarity only runs for shared phones or neighbours
+  if (samePhone) {
+    if (nameSimilarity(a.name, b.name) >= NAME_WITH_PHONE_THRESHOLD) return 'same phone, similar name';
+    if (distance !== undefined && distance <= PHONE_NEARBY_METERS) return `same phone, ${Math.round(distance)} m apart`;
+    return null;
+  }
+
+  if (distance !== undefined && distance <= NEARBY_METERS && nameSimilarity(a.name, b.name) >= NAME_MATCH_THRESHOLD) {
+    return `similar name, ${Math.round(distance)} m apart`;
+  }
+  return null;
+}
+
+const scrapedTime = (business: BusinessData): number => new Date(business.scrapedAt).getTime() || 0;
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (typeof value === 'string') return EMPTY_VALUES.includes(value);
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object' && !(value instanceof Date)) return Object.keys(value as object).length === 0;
+  return false;
+}
+
+// Collapse records of one place: per field, the freshest non-empty value wins
+export function mergeBusinesses(records: BusinessData[]): BusinessData {
+  if (records.length === 1) return records[0];
+
+  const freshestFirst = [...records].sort((a, b) => scrapedTime(b) - scrapedTime(a));
+  const merged: Record<string, unknown> = {};
+
+  const sources: Record<string, BusinessData> = {};
+  const fields = Array.from(new Set(freshestFirst.flatMap(record => Object.keys(record))))
+    .filter(field => !(field in DERIVED_FIELDS));
+  fields.forEach(field => {
+    sources[field] = freshestFirst.find(record => !isEmpty(record[field as keyof BusinessData])) || freshestFirst[0];
+    merged[field] = sources[field][field as keyof BusinessData];
+  });
+  Object.keys(DERIVED_FIELDS).forEach(field => {
+    const source = sources[DERIVED_FIELDS[field]];
+    if (source && source[field as keyof BusinessData] !== undefined) {
+      merged[field] = source[field as keyof BusinessData];
+    }
+  });
+
+  const categories = Array.from(new Set(freshestFirst.flatMap(record => record.matchedCategories || [])));
+  const stableId = freshestFirst.find(record => record.id.startsWith('place_'))?.id || freshestFirst[0].id;
+  const mergedIds = Array.from(new Set(freshestFirst.flatMap(record => [record.id, ...(record.mergedIds || [])])))
+    .filter(id => id !== stableId);
+
+  return {
+    ...(merged as unknown as BusinessData),
+    id: stableId,
+    matchedCategories: categories.length > 0 ? categories : undefined,
+    mergedIds: mergedIds.length > 0 ? mergedIds : undefined,
+    reviews: (merged.reviews as BusinessData['reviews'])?.map(review => ({ ...review, businessId: stableId })),
+    scrapedAt: freshestFirst[0].scrapedAt
+  };
+}
+
+// Combine datasets from several runs, collapsing records with the same stable ID
+export function mergeDatasets(...datasets: BusinessData[][]): BusinessData[] {
+  const groups = new Map<string, BusinessData[]>();
+  datasets.forEach(dataset => dataset.forEach(business => {
+    groups.set(business.id, [...(groups.get(business.id) || []), business]);
+  }));
+
+  return Array.from(groups.values()).map(mergeBusinesses);
+}
+
+// Likely duplicates among records without a shared ID, grouped transitively. Two
+// groups are never joined when together they would hold two different Google
+// places, even if a record without a place ID matches both
+export function findDuplicateClusters(businesses: BusinessData[], dismissed: string[] = []): DuplicateCluster[] {
+  const dismissedPairs = new Set(dismissed);
+  const parent = businesses.map((_, index) => index);
+  // Distinct place IDs per group, kept on the group's root
+  const placeIds = businesses.map(business => new Set(business.placeId ? [business.placeId] : []));
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const reasons = new Map<string, string[]>();
+  for (let i = 0; i < businesses.length; i++) {
+    for (let j = i + 1; j < businesses.length; j++) {
+      const reason = matchReason(businesses[i], businesses[j]);
+      if (!reason) continue;
+
+      const pairKey = [businesses[i].id, businesses[j].id].sort().join('|');
+      if (dismissedPairs.has(pairKey)) continue;
+
+      const rootI = find(i);
+      const rootJ = find(j);
+      if (rootI !== rootJ) {
+        const combined = new Set([...Array.from(placeIds[rootI]), ...Array.from(placeIds[rootJ])]);
+        if (combined.size > 1) continue;
+        parent[rootJ] = rootI;
+        placeIds[rootI] = combined;
+      }
+      reasons.set(pairKey, [reason]);
+    }
+  }
+
+  const groups = new Map<number, BusinessData[]>();
+  businesses.forEach((business, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), business]);
+  });
+
+  return Array.from(groups.values())
+    .filter(members => members.length > 1)
+    .map(members => {
+      const ids = members.map(member => member.id).sort();
+      const clusterReasons = Array.from(new Set(
+        Array.from(reasons.entries())
+          .filter(([pairKey]) => pairKey.split('|').every(id => ids.includes(id)))
+          .flatMap(([, pairReasons]) => pairReasons)
+      ));
+
+      return {
+        key: ids.join('|'),
+        members,
+        reasons: clusterReasons,
+        merged: mergeBusinesses(members)
+      };
+    });
+}
+
+// Pair keys a reviewer marked as distinct places
+export function clusterPairKeys(cluster: DuplicateCluster): string[] {
+  const ids = cluster.members.map(member => member.id).sort();
+  return ids.flatMap((id, index) => ids.slice(index + 1).map(other => [id, other].join('|')));
+}
+
+// Replace a cluster's members with its merged record, at the first member's position
+export function collapseCluster(businesses: BusinessData[], cluster: DuplicateCluster): BusinessData[] {
+  const memberIds = new Set(cluster.members.map(member => member.id));
+  const firstIndex = businesses.findIndex(business => memberIds.has(business.id));
+  if (firstIndex === -1) return businesses;
+
+  const remaining = businesses.filter(business => !memberIds.has(business.id));
+  const insertAt = businesses.slice(0, firstIndex).filter(business => !memberIds.has(business.id)).length;
+  return [...remaining.slice(0, insertAt), cluster.merged, ...remaining.slice(insertAt)];
+}
@@ -0,0 +1,499 @@
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import { Page } from 'puppeteer-core';
+import { BusinessData, EnrichmentReport, SocialNetwork, SocialProfiles } from '@/types';
+import { isValidWebsite } from '@/lib/quality';
+
+export interface FetchedPage {
+  // After redirects
+  url: string;
+  status: number;
+  contentType: string;
+  // Empty for non-text responses
+  body: string;
+  // Set on redirects, which fetchers don't follow: the crawler checks each hop first
+  location?: string;
+}
+
+// How the crawler loads a page: plain HTTP by default, or the scraper's browser
+// for sites that render their contact details with JavaScript
+export interface PageFetcher {
+  name: string;
+  fetch(url: string): Promise<FetchedPage>;
+}
+
+export type WebsiteContacts = Pick<BusinessData, 'emails' | 'socialProfiles' | 'contactFormUrl' | 'enrichment'>;
+
+export interface WebsiteCrawlerOptions {
+  fetcher?: PageFetcher;
+  // Link hops from the homepage; 0 only reads the homepage
+  maxDepth?: number;
+  maxPages?: number;
+  // Minimum gap between requests to one host; robots.txt Crawl-delay can raise it
+  domainDelayMs?: number;
+  userAgent?: string;
+  timeoutMs?: number;
+  // Let the crawler reach loopback and private addresses; only for local testing
+  allowPrivateNetworks?: boolean;
+}
+
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs?: number;
+}
+
+interface PageLink {
+  href: string;
+  text: string;
+}
+
+const DEFAULT_USER_AGENT = 'MapDataMinerBot/1.0';
+
+// Links worth following from the homepage, most useful first
+const CONTACT_LINK_PATTERNS = [
+  /contact|kontakt|contacto|contatti|get-in-touch|reach-us/i,
+  /about|impressum|imprint|legal|mentions|team|uber-uns|qui-sommes/i
+];
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,24}/gi;
+const EMAIL_ADDRESS = /^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,24}$/;
+// Asset names and tracker addresses that look like emails
+const IGNORED_EMAIL = /\.(png|jpe?g|gif|svg|webp|css|js)$|@(sentry|wixpress|example|domain|email)\.|^u00[0-9a-f]{2}/i;
+
+const SOCIAL_PATTERNS: Record<SocialNetwork, { host: RegExp; ignoredPath: RegExp }> = {
+  facebook: { host: /(^|\.)facebook\.com$/i, ignoredPath: /^\/(sharer|share|plugins|dialog|tr|login)(\.php)?(\/|$)/i },
+  instagram: { host: /(^|\.)instagram\.com$/i, ignoredPath: /^\/(p|explore|share|accounts)(\/|$)/i },
+  linkedin: { host: /(^|\.)linkedin\.com$/i, ignoredPath: /^\/(?!(company|in|school)\/)/i },
+  x: { host: /(^|\.)(twitter|x)\.com$/i, ignoredPath: /^\/(intent|share|home|hashtag|search)(\/|$)/i }
+};
+
+const MAX_EMAILS = 10;
+const MAX_REDIRECTS = 5;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const stripWww = (host: string): string => host.toLowerCase().replace(/^www\./, '');
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&#64;|&commat;/g, '@')
+    .replace(/&#46;/g, '.')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+function ipv4IsPrivate(address: string): boolean {
+  const [a, b] = address.split('.').map(part => parseInt(part));
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+// Loopback, private, link-local, shared and reserved ranges, for IPv4 and IPv6
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (isIP(ip) === 4) return ipv4IsPrivate(ip);
+  if (isIP(ip) !== 6) return false;
+
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return ipv4IsPrivate(mapped[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return ipv4IsPrivate([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+}
+
+export class HttpPageFetcher implements PageFetcher {
+  name = 'http';
+
+  constructor(
+    private userAgent: string = DEFAULT_USER_AGENT,
+    private timeoutMs: number = 15000
+  ) {}
+
+  async fetch(url: string): Promise<FetchedPage> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': this.userAgent, Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5' },
+        redirect: 'manual',
+        signal: controller.signal
+      });
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        return { url, status: response.status, contentType: '', body: '', location };
+      }
+      const contentType = response.headers.get('content-type') || '';
+      const body = /text|html|xml/i.test(contentType) || !contentType ? await response.text() : '';
+      return { url: response.url || url, status: response.status, contentType, body };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Opens a fresh tab per request so concurrent crawls don't share a page. Main
+// frame redirects are stopped and reported like HttpPageFetcher does
+export class BrowserPageFetcher implements PageFetcher {
+  name = 'browser';
+
+  constructor(
+    private createPage: () => Promise<Page>,
+    private timeoutMs: number = 15000
+  ) {}
+
+  async fetch(url: string): Promise<FetchedPage> {
+    const page = await this.createPage();
+    let redirectedTo: string | undefined;
+    try {
+      await page.setRequestInterception(true);
+      page.on('request', request => {
+        if (request.isNavigationRequest() && request.frame() === page.mainFrame() && request.redirectChain().length > 0) {
+          redirectedTo = redirectedTo || request.url();
+          request.abort().catch(() => {});
+        } else {
+          request.continue().catch(() => {});
+        }
+      });
+
+      const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: this.timeoutMs }).catch(error => {
+        if (redirectedTo) return null;
+        throw error;
+      });
+      if (redirectedTo) {
+        return { url, status: 302, contentType: '', body: '', location: redirectedTo };
+      }
+      return {
+        url: page.url(),
+        status: response?.status() ?? 0,
+        contentType: response?.headers()['content-type'] || 'text/html',
+        body: await page.content()
+      };
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
+}
+
+// Rules from the group naming our user agent, else the `*` group
+export function parseRobotsTxt(text: string, userAgent: string = DEFAULT_USER_AGENT): RobotsRules {
+  const agentToken = userAgent.split('/')[0].toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRules }[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      return;
+    }
+
+    lastWasAgent = false;
+    if (!current) return;
+    if (key === 'allow' && value) current.rules.allow.push(value);
+    if (key === 'disallow' && value) current.rules.disallow.push(value);
+    if (key === 'crawl-delay' && !isNaN(parseFloat(value))) current.rules.crawlDelayMs = parseFloat(value) * 1000;
+  });
+
+  const named = groups.find(group => group.agents.some(agent => agent !== '*' && agentToken.includes(agent)));
+  const wildcard = groups.find(group => group.agents.includes('*'));
+  return (named || wildcard)?.rules || { allow: [], disallow: [] };
+}
+
+function robotsPatternLength(pattern: string, path: string): number {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path) ? pattern.length : -1;
+}
+
+// Longest matching rule wins; Allow wins a tie
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  const longest = (patterns: string[]) => Math.max(-1, ...patterns.map(pattern => robotsPatternLength(pattern, path)));
+  return longest(rules.allow) >= longest(rules.disallow);
+}
+
+function extractLinks(html: string, baseUrl: string): PageLink[] {
+  const links: PageLink[] = [];
+  const anchorPattern = /<a\s[^>]*?href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = anchorPattern.exec(html)) !== null) {
+    try {
+      const href = new URL(decodeEntities(match[1]).trim(), baseUrl).toString();
+      links.push({ href, text: match[2].replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() });
+    } catch (error) {
+      // Malformed href
+    }
+  }
+
+  return links;
+}
+
+function extractEmails(html: string, links: PageLink[]): string[] {
+  const mailtos = links
+    .filter(link => link.href.toLowerCase().startsWith('mailto:'))
+    .map(link => link.href.slice('mailto:'.length).split('?')[0].replace(/%40/gi, '@'));
+  const inText = decodeEntities(html).match(EMAIL_PATTERN) || [];
+
+  return Array.from(new Set([...mailtos, ...inText].map(email => email.trim().toLowerCase())))
+    .filter(email => EMAIL_ADDRESS.test(email) && !IGNORED_EMAIL.test(email));
+}
+
+function socialProfileFor(href: string): { network: SocialNetwork; url: string } | null {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch (error) {
+    return null;
+  }
+
+  const networks = Object.keys(SOCIAL_PATTERNS) as SocialNetwork[];
+  const network = networks.find(candidate => SOCIAL_PATTERNS[candidate].host.test(url.hostname));
+  if (!network) return null;
+
+  const path = url.pathname.replace(/\/+$/, '');
+  if (!path || SOCIAL_PATTERNS[network].ignoredPath.test(`${path}/`)) return null;
+
+  return { network, url: `https://${url.hostname.toLowerCase()}${path}` };
+}
+
+// Contact page: a form with a free-text field, so search and newsletter boxes don't count
+const hasContactForm = (html: string): boolean => /<form[\s\S]*?<textarea[\s\S]*?<\/form>/i.test(html);
+
+function contactLinkRank(link: PageLink): number {
+  const index = CONTACT_LINK_PATTERNS.findIndex(pattern => pattern.test(link.href) || pattern.test(link.text));
+  return index === -1 ? Infinity : index;
+}
+
+// Visits a business website and the contact/about pages it links to, collecting
+// emails, social profiles and the contact form URL. Requests to one host are
+// spaced by the domain delay and pages disallowed by robots.txt are skipped.
+// Website URLs come from listings, so hosts that resolve to private or loopback
+// addresses are never requested, including as redirect targets
+export class WebsiteCrawler {
+  private fetcher: PageFetcher;
+  private robotsFetcher: PageFetcher;
+  private maxDepth: number;
+  private maxPages: number;
+  private domainDelayMs: number;
+  private userAgent: string;
+  private allowPrivateNetworks: boolean;
+  private publicHosts = new Map<string, Promise<boolean>>();
+  private robotsByOrigin = new Map<string, Promise<RobotsRules>>();
+  // Earliest time the next request to each host may start
+  private nextRequestAt = new Map<string, number>();
+
+  constructor(options: WebsiteCrawlerOptions = {}) {
+    this.userAgent = options.userAgent || DEFAULT_USER_AGENT;
+    this.fetcher = options.fetcher || new HttpPageFetcher(this.userAgent, options.timeoutMs);
+    // robots.txt is plain text; a browser would wrap it in HTML
+    this.robotsFetcher = this.fetcher.name === 'http' ? this.fetcher : new HttpPageFetcher(this.userAgent, options.timeoutMs);
+    this.maxDepth = options.maxDepth ?? 1;
+    this.maxPages = options.maxPages ?? 5;
+    this.domainDelayMs = options.domainDelayMs ?? 2000;
+    this.allowPrivateNetworks = options.allowPrivateNetworks ?? false;
+  }
+
+  async crawl(website: string): Promise<WebsiteContacts> {
+    const report: EnrichmentReport = { crawledAt: new Date(), pagesVisited: 0, pagesBlocked: 0 };
+    if (!isValidWebsite(website)) {
+      return { enrichment: { ...report, error: 'Not a crawlable website URL' } };
+    }
+
+    // The homepage may redirect to another domain; that one is the site's
+    let siteHost = stripWww(new URL(website).hostname);
+    const emails: string[] = [];
+    const socialProfiles: SocialProfiles = {};
+    let contactFormUrl: string | undefined;
+
+    const queue: { url: string; depth: number }[] = [{ url: website, depth: 0 }];
+    const seen = new Set<string>([website.replace(/#.*$/, '')]);
+
+    while (queue.length > 0 && report.pagesVisited < this.maxPages) {
+      const { url, depth } = queue.shift()!;
+
+      let page: FetchedPage | null;
+      try {
+        page = await this.fetchFollowingRedirects(this.fetcher, url, async target => {
+          const rules = await this.getRobotsRules(target.origin);
+          if (!isPathAllowed(rules, target.pathname + target.search)) {
+            report.pagesBlocked++;
+            return false;
+          }
+          await this.waitForHost(target.hostname, rules.crawlDelayMs);
+          return true;
+        });
+      } catch (error) {
+        if (depth === 0) report.error = error instanceof Error ? error.message : 'Unknown error';
+        continue;
+      }
+      if (!page) continue;
+
+      if (page.status >= 400 || !page.body) {
+        if (depth === 0) report.error = `Homepage returned HTTP ${page.status}`;
+        continue;
+      }
+      report.pagesVisited++;
+
+      const pageHost = stripWww(new URL(page.url).hostname);
+      if (depth === 0) siteHost = pageHost;
+
+      const links = extractLinks(page.body, page.url);
+      extractEmails(page.body, links).forEach(email => {
+        if (!emails.includes(email)) emails.push(email);
+      });
+      links.forEach(link => {
+        const profile = socialProfileFor(link.href);
+        if (profile && !socialProfiles[profile.network]) socialProfiles[profile.network] = profile.url;
+      });
+      if (!contactFormUrl && hasContactForm(page.body)) {
+        contactFormUrl = page.url;
+      }
+
+      if (depth >= this.maxDepth) continue;
+
+      links
+        .filter(link => /^https?:/i.test(link.href) && stripWww(new URL(link.href).hostname) === pageHost)
+        .map(link => ({ link, rank: contactLinkRank(link), url: link.href.replace(/#.*$/, '') }))
+        .filter(candidate => candidate.rank !== Infinity && !seen.has(candidate.url))
+        .sort((a, b) => a.rank - b.rank)
+        .forEach(candidate => {
+          seen.add(candidate.url);
+          queue.push({ url: candidate.url, depth: depth + 1 });
+        });
+    }
+
+    // Addresses on the business's own domain are the likeliest to be theirs
+    const ownDomainFirst = emails
+      .sort((a, b) => Number(stripWww(b.split('@')[1]) === siteHost) - Number(stripWww(a.split('@')[1]) === siteHost))
+      .slice(0, MAX_EMAILS);
+
+    return {
+      emails: ownDomainFirst.length > 0 ? ownDomainFirst : undefined,
+      socialProfiles: Object.keys(socialProfiles).length > 0 ? socialProfiles : undefined,
+      contactFormUrl,
+      enrichment: report
+    };
+  }
+
+  // Fetch `url` one redirect hop at a time. Every hop must be http(s) on a public
+  // host, then `beforeRequest` runs for it; returning false drops the page
+  private async fetchFollowingRedirects(
+    fetcher: PageFetcher,
+    url: string,
+    beforeRequest: (target: URL) => Promise<boolean>
+  ): Promise<FetchedPage | null> {
+    let current = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const target = new URL(current);
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        throw new Error(`Redirected to unsupported URL ${current}`);
+      }
+      if (!(await this.isPublicHost(target.hostname))) {
+        throw new Error(`${target.hostname} resolves to a private or loopback address`);
+      }
+      if (!(await beforeRequest(target))) return null;
+
+      const page = await fetcher.fetch(current);
+      if (!page.location) return page;
+      current = new URL(page.location, current).toString();
+    }
+    throw new Error(`Too many redirects from ${url}`);
+  }
+
+  // Checked once per host. Every address the name resolves to must be public
+  private isPublicHost(hostname: string): Promise<boolean> {
+    if (this.allowPrivateNetworks) return Promise.resolve(true);
+
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    let check = this.publicHosts.get(host);
+    if (!check) {
+      check = dns.lookup(host, { all: true, verbatim: true }).then(
+        addresses => addresses.length > 0 && !addresses.some(({ address }) => isPrivateAddress(address)),
+        () => false
+      );
+      this.publicHosts.set(host, check);
+    }
+    return check;
+  }
+
+  private getRobotsRules(origin: string): Promise<RobotsRules> {
+    let rules = this.robotsByOrigin.get(origin);
+    if (!rules) {
+      rules = this.loadRobotsRules(origin);
+      this.robotsByOrigin.set(origin, rules);
+    }
+    return rules;
+  }
+
+  private async loadRobotsRules(origin: string): Promise<RobotsRules> {
+    try {
+      const response = await this.fetchFollowingRedirects(this.robotsFetcher, `${origin}/robots.txt`, async target => {
+        await this.waitForHost(target.hostname);
+        return true;
+      });
+      if (!response) return { allow: [], disallow: [] };
+      // No robots.txt means no restrictions; a server error means stay away
+      if (response.status >= 500) return { allow: [], disallow: ['/'] };
+      if (response.status >= 400) return { allow: [], disallow: [] };
+      return parseRobotsTxt(response.body, this.userAgent);
+    } catch (error) {
+      console.log(`🤖 Could not read robots.txt for ${origin}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { allow: [], disallow: ['/'] };
+    }
+  }
+
+  private async waitForHost(hostname: string, crawlDelayMs: number = 0): Promise<void> {
+    const host = stripWww(hostname);
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt.get(host) || 0);
+    this.nextRequestAt.set(host, slot + Math.max(this.domainDelayMs, crawlDelayMs));
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+// Crawler configured from ENRICH_* environment variables. `createPage` is needed
+// when ENRICH_FETCHER=browser
+export function createWebsiteCrawlerFromEnv(createPage?: () => Promise<Page>): WebsiteCrawler {
+  const userAgent = process.env.ENRICH_USER_AGENT || DEFAULT_USER_AGENT;
+  const timeoutMs = parseInt(process.env.ENRICH_TIMEOUT_MS || '15000');
+  const fetcher = process.env.ENRICH_FETCHER === 'browser' && createPage
+    ? new BrowserPageFetcher(createPage, timeoutMs)
+    : new HttpPageFetcher(userAgent, timeoutMs);
+
+  return new WebsiteCrawler({
+    fetcher,
+    userAgent,
+    timeoutMs,
+    maxDepth: parseInt(process.env.ENRICH_MAX_DEPTH || '1'),
+    maxPages: parseInt(process.env.ENRICH_MAX_PAGES || '5'),
+    domainDelayMs: parseInt(process.env.ENRICH_DOMAIN_DELAY_MS || '2000')
+  });
+}
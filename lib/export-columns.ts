@@ -0,0 +1,176 @@
+import { BusinessData, ExportOptions } from '@/types';
+import { DISPLAY_WEEKDAYS, formatDayHours } from '@/utils/hours';
+import { formatQualityFlags } from '@/lib/quality';
+import { SOCIAL_NETWORKS } from '@/utils/social';
+
+// A cell before serialization; CSV flattens it, XLSX keeps the type
+export type ExportValue = string | number | boolean | Date | { text: string; hyperlink: string } | undefined;
+
+export interface ExportColumn<T = BusinessData> {
+  header: string;
+  // XLSX column width in characters and number format
+  width: number;
+  numFmt?: string;
+  value: (row: T) => ExportValue;
+}
+
+// A field the user can select and reorder; it may span several columns
+export interface ExportField {
+  id: string;
+  label: string;
+  required?: boolean;
+  columns: ExportColumn[];
+}
+
+export const toDate = (value?: Date | string): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const hyperlink = (text?: string, url?: string): ExportValue =>
+  text && url ? { text, hyperlink: url } : text;
+
+const phoneLink = (business: BusinessData): ExportValue =>
+  business.phone
+    ? hyperlink(business.phone, `tel:${business.phoneDetails?.e164 || business.phone.replace(/[^\d+]/g, '')}`)
+    : undefined;
+
+// Selectable fields, in their default order. Photos, reviews, address components
+// and weekday hours are switched on by export options instead; the extraction and
+// enrichment reports are diagnostics and only go out in JSON Lines and Parquet
+export const EXPORT_FIELDS: ExportField[] = [
+  { id: 'name', label: 'Business Name', required: true, columns: [
+    { header: 'Business Name', width: 30, value: business => business.name }
+  ] },
+  { id: 'address', label: 'Address', columns: [
+    { header: 'Address', width: 40, value: business => business.address }
+  ] },
+  { id: 'phone', label: 'Phone Number', columns: [
+    { header: 'Phone', width: 18, value: phoneLink },
+    { header: 'Phone E.164', width: 16, value: business => business.phoneDetails?.e164 },
+    { header: 'Phone Type', width: 12, value: business => business.phoneDetails?.type },
+    { header: 'Phone Valid', width: 11, value: business => business.phoneDetails?.valid }
+  ] },
+  { id: 'website', label: 'Website', columns: [
+    { header: 'Website', width: 30, value: business => hyperlink(business.website, business.website) }
+  ] },
+  { id: 'contacts', label: 'Emails & Social', columns: [
+    { header: 'Emails', width: 30, value: business => business.emails?.join(' ') },
+    ...SOCIAL_NETWORKS.map(network => ({
+      header: network.label,
+      width: 30,
+      value: (business: BusinessData) => hyperlink(business.socialProfiles?.[network.id], business.socialProfiles?.[network.id])
+    })),
+    { header: 'Contact Form', width: 30, value: business => hyperlink(business.contactFormUrl, business.contactFormUrl) }
+  ] },
+  { id: 'rating', label: 'Rating', columns: [
+    { header: 'Rating', width: 8, value: business => business.rating }
+  ] },
+  { id: 'reviewCount', label: 'Review Count', columns: [
+    { header: 'Review Count', width: 13, value: business => business.reviewCount }
+  ] },
+  { id: 'category', label: 'Category', columns: [
+    { header: 'Category', width: 20, value: business => business.category }
+  ] },
+  { id: 'matchedCategories', label: 'Matched Categories', columns: [
+    { header: 'Matched Categories', width: 30, value: business => business.matchedCategories?.join('; ') }
+  ] },
+  { id: 'hours', label: 'Operating Hours', columns: [
+    { header: 'Hours', width: 30, value: business => business.hours }
+  ] },
+  { id: 'priceLevel', label: 'Price Level', columns: [
+    { header: 'Price Level', width: 11, value: business => business.priceLevel }
+  ] },
+  { id: 'description', label: 'Description', columns: [
+    { header: 'Description', width: 40, value: business => business.description }
+  ] },
+  { id: 'attributes', label: 'Attributes', columns: [
+    {
+      header: 'Attributes',
+      width: 40,
+      value: business => Object.keys(business.attributes || {}).filter(key => business.attributes![key]).join('; ')
+    }
+  ] },
+  // 24 hourly busyness percentages per day, from midnight
+  { id: 'popularTimes', label: 'Popular Times', columns: DISPLAY_WEEKDAYS.map(day => ({
+    header: `Popular Times ${day.charAt(0).toUpperCase() + day.slice(1)}`,
+    width: 30,
+    value: (business: BusinessData) => business.popularTimes?.[day]?.join(' ')
+  })) },
+  { id: 'placeId', label: 'Place ID', columns: [
+    { header: 'Place ID', width: 28, value: business => business.placeId }
+  ] },
+  { id: 'id', label: 'Business ID', columns: [
+    { header: 'Business ID', width: 28, value: business => business.id }
+  ] },
+  { id: 'mergedIds', label: 'Merged IDs', columns: [
+    { header: 'Merged IDs', width: 28, value: business => business.mergedIds?.join(' ') }
+  ] },
+  { id: 'quality', label: 'Quality Score', columns: [
+    { header: 'Quality Score', width: 13, value: business => business.quality?.score },
+    { header: 'Quality Flags', width: 30, value: business => formatQualityFlags(business.quality) }
+  ] },
+  { id: 'coordinates', label: 'Coordinates', columns: [
+    { header: 'Latitude', width: 12, numFmt: '0.000000', value: business => business.coordinates?.lat },
+    { header: 'Longitude', width: 12, numFmt: '0.000000', value: business => business.coordinates?.lng }
+  ] },
+  { id: 'scrapedAt', label: 'Scraped Date', columns: [
+    { header: 'Scraped At', width: 17, numFmt: 'yyyy-mm-dd hh:mm', value: business => toDate(business.scrapedAt) }
+  ] }
+];
+
+export const DEFAULT_EXPORT_FIELDS = ['name', 'address', 'phone', 'website', 'rating', 'reviewCount', 'category'];
+
+// Columns switched on by export options rather than picked from the field list
+const ADDRESS_COMPONENT_COLUMNS: ExportColumn[] = [
+  { header: 'Street', width: 30, value: business => business.addressComponents?.street },
+  { header: 'City', width: 18, value: business => business.addressComponents?.city },
+  { header: 'Postal Code', width: 12, value: business => business.addressComponents?.postalCode },
+  { header: 'Region', width: 16, value: business => business.addressComponents?.region },
+  { header: 'Country', width: 10, value: business => business.addressComponents?.country }
+];
+
+const WEEKDAY_HOURS_COLUMNS: ExportColumn[] = DISPLAY_WEEKDAYS.map(day => ({
+  header: day.charAt(0).toUpperCase() + day.slice(1),
+  width: 16,
+  value: (business: BusinessData) => formatDayHours(business.openingHours?.[day])
+}));
+
+const PHOTOS_COLUMN: ExportColumn = {
+  header: 'Photos',
+  width: 40,
+  value: business => business.photos?.join(' ')
+};
+
+// Columns in the order of options.selectedFields. Address components follow the
+// address, weekday hours follow the hours, or both go last when their field is off
+export function resolveExportColumns(options: ExportOptions): ExportColumn[] {
+  const selected = options.selectedFields.length > 0 ? options.selectedFields : DEFAULT_EXPORT_FIELDS;
+  const ids = EXPORT_FIELDS.filter(field => field.required && !selected.includes(field.id)).map(field => field.id)
+    .concat(selected);
+
+  const columns: ExportColumn[] = [];
+  let addressComponents = Boolean(options.addressComponents);
+  let weekdayHours = Boolean(options.hoursByWeekday);
+
+  ids.forEach(id => {
+    const field = EXPORT_FIELDS.find(candidate => candidate.id === id);
+    if (!field) return;
+    columns.push(...field.columns);
+
+    if (id === 'address' && addressComponents) {
+      columns.push(...ADDRESS_COMPONENT_COLUMNS);
+      addressComponents = false;
+    }
+    if (id === 'hours' && weekdayHours) {
+      columns.push(...WEEKDAY_HOURS_COLUMNS);
+      weekdayHours = false;
+    }
+  });
+
+  if (addressComponents) columns.push(...ADDRESS_COMPONENT_COLUMNS);
+  if (weekdayHours) columns.push(...WEEKDAY_HOURS_COLUMNS);
+  if (options.includePhotos) columns.push(PHOTOS_COLUMN);
+  return columns;
+}
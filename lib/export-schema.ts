@@ -0,0 +1,285 @@
+import type { ByteWriter, ColumnSource, SchemaElement, Writer } from 'hyparquet-writer';
+import { BusinessData } from '@/types';
+import { toDate } from '@/lib/export-columns';
+
+// Bump on any breaking change (a field renamed, removed or retyped). Adding a
+// nullable field is not breaking and keeps the version
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type DataFormat = 'jsonl' | 'parquet';
+
+export const DATA_FORMATS: Record<DataFormat, { label: string; extension: string; mimeType: string }> = {
+  jsonl: { label: 'JSON Lines', extension: 'jsonl', mimeType: 'application/x-ndjson' },
+  parquet: { label: 'Parquet', extension: 'parquet', mimeType: 'application/vnd.apache.parquet' }
+};
+
+export type SchemaFieldType = 'string' | 'integer' | 'double' | 'timestamp' | 'string_list' | 'json';
+
+export interface SchemaField {
+  name: string;
+  type: SchemaFieldType;
+  required: boolean;
+}
+
+// One entry per BusinessData field, so adding a field without deciding how it is
+// exported fails to compile. Nested objects travel as JSON; coordinates are
+// flattened to latitude/longitude
+const FIELD_TYPES: Record<keyof BusinessData, SchemaFieldType | 'coordinates'> = {
+  id: 'string',
+  name: 'string',
+  address: 'string',
+  addressComponents: 'json',
+  phone: 'string',
+  phoneDetails: 'json',
+  website: 'string',
+  rating: 'double',
+  reviewCount: 'integer',
+  category: 'string',
+  hours: 'string',
+  openingHours: 'json',
+  popularTimes: 'json',
+  attributes: 'json',
+  priceLevel: 'string',
+  coordinates: 'coordinates',
+  placeId: 'string',
+  photos: 'string_list',
+  description: 'string',
+  matchedCategories: 'string_list',
+  mergedIds: 'string_list',
+  extraction: 'json',
+  quality: 'json',
+  emails: 'string_list',
+  socialProfiles: 'json',
+  contactFormUrl: 'string',
+  enrichment: 'json',
+  reviews: 'json',
+  scrapedAt: 'timestamp'
+};
+
+const REQUIRED_FIELDS: (keyof BusinessData)[] = ['id', 'name', 'address', 'scrapedAt'];
+
+export const BUSINESS_SCHEMA: SchemaField[] = [
+  { name: 'schemaVersion', type: 'integer', required: true },
+  ...(Object.keys(FIELD_TYPES) as (keyof BusinessData)[]).flatMap((name): SchemaField[] => {
+    const type = FIELD_TYPES[name];
+    if (type === 'coordinates') {
+      return [
+        { name: 'latitude', type: 'double', required: false },
+        { name: 'longitude', type: 'double', required: false }
+      ];
+    }
+    return [{ name, type, required: REQUIRED_FIELDS.includes(name) }];
+  })
+];
+
+export type SchemaRecord = Record<string, string | number | Date | string[] | object | null>;
+
+// Missing values become null so every record has every field
+export function toSchemaRecord(business: BusinessData): SchemaRecord {
+  const source = business as unknown as Record<string, unknown>;
+  const record: SchemaRecord = {};
+
+  BUSINESS_SCHEMA.forEach(field => {
+    const value = field.name === 'schemaVersion' ? EXPORT_SCHEMA_VERSION
+      : field.name === 'latitude' ? business.coordinates?.lat
+      : field.name === 'longitude' ? business.coordinates?.lng
+      : source[field.name];
+
+    switch (field.type) {
+      case 'string':
+        record[field.name] = value === undefined || value === null ? null : String(value);
+        break;
+      case 'integer':
+      case 'double':
+        record[field.name] = typeof value === 'number' && isFinite(value)
+          ? (field.type === 'integer' ? Math.round(value) : value)
+          : null;
+        break;
+      case 'timestamp':
+        record[field.name] = toDate(value as Date | string | undefined) || null;
+        break;
+      case 'string_list':
+        record[field.name] = Array.isArray(value) ? value.map(String) : null;
+        break;
+      case 'json':
+        record[field.name] = value === undefined ? null : value as object;
+        break;
+    }
+  });
+
+  return record;
+}
+
+// JSON Lines: one record per line, timestamps as ISO 8601 UTC
+export function toJSONLine(business: BusinessData): string {
+  return JSON.stringify(toSchemaRecord(business));
+}
+
+// Machine-readable schema, served next to the exports so loaders can check the version
+export function describeExportSchema() {
+  return {
+    name: 'business',
+    version: EXPORT_SCHEMA_VERSION,
+    fields: BUSINESS_SCHEMA
+  };
+}
+
+const repetition = (field: SchemaField): SchemaElement['repetition_type'] =>
+  field.required ? 'REQUIRED' : 'OPTIONAL';
+
+export function parquetSchema(): SchemaElement[] {
+  const elements: SchemaElement[] = [{ name: 'root', num_children: BUSINESS_SCHEMA.length }];
+
+  BUSINESS_SCHEMA.forEach(field => {
+    switch (field.type) {
+      case 'string':
+        elements.push({ name: field.name, type: 'BYTE_ARRAY', converted_type: 'UTF8', repetition_type: repetition(field) });
+        break;
+      case 'integer':
+        elements.push({ name: field.name, type: 'INT32', repetition_type: repetition(field) });
+        break;
+      case 'double':
+        elements.push({ name: field.name, type: 'DOUBLE', repetition_type: repetition(field) });
+        break;
+      case 'timestamp':
+        elements.push({ name: field.name, type: 'INT64', converted_type: 'TIMESTAMP_MILLIS', repetition_type: repetition(field) });
+        break;
+      case 'json':
+        elements.push({ name: field.name, type: 'BYTE_ARRAY', converted_type: 'JSON', repetition_type: repetition(field) });
+        break;
+      case 'string_list':
+        // Standard three-level LIST, so readers get a real string array
+        elements.push(
+          { name: field.name, converted_type: 'LIST', repetition_type: repetition(field), num_children: 1 },
+          { name: 'list', repetition_type: 'REPEATED', num_children: 1 },
+          { name: 'element', type: 'BYTE_ARRAY', converted_type: 'UTF8', repetition_type: 'REQUIRED' }
+        );
+        break;
+    }
+  });
+
+  return elements;
+}
+
+function parquetColumns(records: SchemaRecord[]): ColumnSource[] {
+  return BUSINESS_SCHEMA.map(field => ({
+    name: field.name,
+    data: records.map(record => record[field.name])
+  }));
+}
+
+const PARQUET_METADATA = [
+  { key: 'mapdataminer.schema', value: 'business' },
+  { key: 'mapdataminer.schema_version', value: String(EXPORT_SCHEMA_VERSION) }
+];
+
+// An array, or records read incrementally such as JobStore.readBusinesses()
+export type BusinessSource = Iterable<BusinessData> | AsyncIterable<BusinessData>;
+
+async function* inBatches(businesses: BusinessSource, size: number): AsyncGenerator<BusinessData[]> {
+  let batch: BusinessData[] = [];
+  for await (const business of businesses) {
+    batch.push(business);
+    if (batch.length >= size) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+// A Parquet file written one row group per batch. The writer's flush() runs
+// after each row group, which is where streams emit
+async function openParquet(writer: Writer) {
+  const { ParquetWriter } = await import('hyparquet-writer');
+  const parquet = new ParquetWriter({ writer, schema: parquetSchema(), kvMetadata: PARQUET_METADATA });
+
+  return {
+    async writeBatch(batch: BusinessData[]) {
+      const records = batch.map(toSchemaRecord);
+      await parquet.write({ columnData: parquetColumns(records), rowGroupSize: records.length });
+    },
+    async finish() {
+      await parquet.finish();
+    }
+  };
+}
+
+// Writes the businesses as Parquet, one row group per `rowGroupSize` records
+export async function writeParquet(businesses: BusinessSource, writer: Writer, rowGroupSize: number = 1000): Promise<void> {
+  const parquet = await openParquet(writer);
+  for await (const batch of inBatches(businesses, rowGroupSize)) {
+    await parquet.writeBatch(batch);
+  }
+  await parquet.finish();
+}
+
+export async function createByteWriter(): Promise<ByteWriter> {
+  const { ByteWriter } = await import('hyparquet-writer');
+  return new ByteWriter();
+}
+
+// Stream the businesses as JSON Lines or Parquet, `batchSize` records at a time.
+// Batches are read only when the client pulls, so with an incremental source
+// neither the records nor the file are ever held in memory whole. Parquet emits
+// one row group per batch
+export function createExportStream(
+  businesses: BusinessSource,
+  format: DataFormat,
+  batchSize: number = 500
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const batches = inBatches(businesses, batchSize);
+
+  if (format === 'jsonl') {
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { value: batch, done } = await batches.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(batch.map(toJSONLine).join('\n') + '\n'));
+      },
+      async cancel() {
+        await batches.return(undefined);
+      }
+    });
+  }
+
+  let parquet: Awaited<ReturnType<typeof openParquet>> | undefined;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!parquet) {
+          const writer: ByteWriter & Pick<Writer, 'flush'> = await createByteWriter();
+          // Hand each finished row group to the stream and reuse the buffer
+          const flush = () => {
+            if (writer.index === 0) return;
+            controller.enqueue(new Uint8Array(writer.buffer.slice(0, writer.index)));
+            writer.index = 0;
+          };
+          writer.flush = flush;
+          writer.finish = flush;
+          parquet = await openParquet(writer);
+        }
+
+        const { value: batch, done } = await batches.next();
+        if (done) {
+          await parquet.finish();
+          controller.close();
+          return;
+        }
+        await parquet.writeBatch(batch);
+      } catch (error) {
+        console.error('❌ Parquet export stream failed:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await batches.return(undefined);
+    }
+  });
+}
@@ -1,57 +1,397 @@
-import { BusinessData, ExportOptions, GoogleSheetsConfig } from '@/types';
+import type { Workbook } from 'exceljs';
+import { BusinessData, BusinessReview, ExportOptions, GoogleSheetsConfig, SearchParams } from '@/types';
+import { EXPORT_FIELDS, ExportColumn, ExportValue, resolveExportColumns, toDate } from '@/lib/export-columns';
+import { DATA_FORMATS, DataFormat, createByteWriter, toJSONLine, writeParquet } from '@/lib/export-schema';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm';
+const UTF8_BOM = '\uFEFF';
+
+export type GeoFormat = 'geojson' | 'kml' | 'gpx';
+
+export const GEO_FORMATS: Record<GeoFormat, { label: string; extension: string; mimeType: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' }
+};
+
+// A map file plus the records it could not place, so callers can report them
+export interface GeoExport {
+  content: string;
+  exported: number;
+  missingCoordinates: BusinessData[];
+}
+
+interface ReviewRow {
+  business: BusinessData;
+  review: BusinessReview;
+}
+
+const REVIEW_COLUMNS: ExportColumn<ReviewRow>[] = [
+  { header: 'Business ID', width: 28, value: row => row.review.businessId },
+  { header: 'Business Name', width: 30, value: row => row.business.name },
+  { header: 'Review ID', width: 24, value: row => row.review.id },
+  { header: 'Author', width: 20, value: row => row.review.author },
+  { header: 'Rating', width: 8, value: row => row.review.rating },
+  { header: 'Date', width: 14, value: row => row.review.date },
+  { header: 'Published At (estimated)', width: 14, numFmt: 'yyyy-mm-dd', value: row => toDate(row.review.publishedAt) },
+  { header: 'Language', width: 10, value: row => row.review.language },
+  { header: 'Text', width: 60, value: row => row.review.text },
+  { header: 'Owner Response', width: 40, value: row => row.review.ownerResponse?.text },
+  { header: 'Owner Response Date', width: 14, value: row => row.review.ownerResponse?.date }
+];
+
+const reviewRows = (data: BusinessData[]): ReviewRow[] =>
+  data.flatMap(business => (business.reviews || []).map(review => ({ business, review })));
+
+// Flatten a typed value for CSV: links keep their text, dates become ISO strings
+const formatCSVValue = (value: ExportValue, numFmt?: string): string => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) {
+    return numFmt === 'yyyy-mm-dd' ? value.toISOString().split('T')[0] : value.toISOString();
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (typeof value === 'object') return value.text;
+  return String(value);
+};
+
+// RFC 4180: quote fields holding the delimiter, quotes, line breaks or edge spaces
+export const quoteCSVField = (field: string, delimiter: string = ','): string => {
+  const needsQuotes = field.includes(delimiter) || /["\r\n]/.test(field) || field !== field.trim();
+  return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+// 0,0 is a parsing placeholder rather than a real place, so it counts as missing
+const hasCoordinates = (business: BusinessData): boolean => {
+  const coordinates = business.coordinates;
+  if (!coordinates || !isFinite(coordinates.lat) || !isFinite(coordinates.lng)) return false;
+  if (coordinates.lat === 0 && coordinates.lng === 0) return false;
+  return Math.abs(coordinates.lat) <= 90 && Math.abs(coordinates.lng) <= 180;
+};
+
+// Escapes text for XML and drops control characters XML 1.0 does not allow
+const escapeXML = (value: string): string => value
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// Every registry column, for KML ExtendedData
+const ALL_COLUMNS = EXPORT_FIELDS.flatMap(field => field.columns)
+  .filter(column => column.header !== 'Latitude' && column.header !== 'Longitude');
 
 export class DataExporter {
-  
+
   static generateCSVContent(data: BusinessData[], options: ExportOptions): string {
-    const headers = [
-      'Business Name',
-      'Address', 
-      'Phone',
-      'Website',
-      'Rating',
-      'Review Count',
-      'Category',
-      'Hours',
-      'Coordinates',
-      'Scraped At'
+    return DataExporter.writeCSV(resolveExportColumns(options), data, options);
+  }
+
+  // One row per review, linked to its business by Business ID
+  static generateReviewsCSVContent(data: BusinessData[], options?: ExportOptions): string {
+    return DataExporter.writeCSV(REVIEW_COLUMNS, reviewRows(data), options);
+  }
+
+  private static writeCSV<T>(columns: ExportColumn<T>[], rows: T[], options?: ExportOptions): string {
+    const delimiter = options?.delimiter || ',';
+    const line = (fields: string[]) => fields.map(field => quoteCSVField(field, delimiter)).join(delimiter);
+
+    const lines = rows.map(row => line(columns.map(column => formatCSVValue(column.value(row), column.numFmt))));
+    if (options?.includeHeader !== false) {
+      lines.unshift(line(columns.map(column => column.header)));
+    }
+
+    // Line breaks inside quoted fields stay \n; records end with \r\n
+    const content = lines.join('\r\n');
+    return options?.encoding === 'utf-8-bom' ? UTF8_BOM + content : content;
+  }
+
+  // Workbook with a Businesses sheet and, per options, Search, Reviews and
+  // Categories sheets. exceljs is loaded on demand to keep it out of the page bundle
+  static async generateXLSX(data: BusinessData[], options: ExportOptions, search?: SearchParams): Promise<Blob> {
+    const { Workbook } = await import('exceljs');
+    const workbook = new Workbook();
+    workbook.creator = 'MapDataMiner';
+    workbook.created = new Date();
+
+    DataExporter.addSheet(workbook, 'Businesses', resolveExportColumns(options), data);
+
+    if (options.searchMetadata) {
+      DataExporter.addSearchSheet(workbook, data, search);
+    }
+
+    const reviews = reviewRows(data);
+    if (options.reviews && reviews.length > 0) {
+      DataExporter.addSheet(workbook, 'Reviews', REVIEW_COLUMNS, reviews);
+    }
+
+    if (options.categorySummary) {
+      DataExporter.addSheet(workbook, 'Categories', [
+        { header: 'Category', width: 30, value: row => row.category },
+        { header: 'Businesses', width: 12, value: row => row.businesses.length },
+        { header: 'Average Rating', width: 14, numFmt: '0.00', value: row => {
+          const rated = row.businesses.filter(business => business.rating);
+          return rated.length > 0 ? rated.reduce((sum, business) => sum + business.rating!, 0) / rated.length : undefined;
+        } },
+        { header: 'Total Reviews', width: 14, value: row => row.businesses.reduce((sum, business) => sum + (business.reviewCount || 0), 0) },
+        { header: 'With Website', width: 14, value: row => row.businesses.filter(business => business.website).length },
+        { header: 'With Phone', width: 12, value: row => row.businesses.filter(business => business.phone).length }
+      ], DataExporter.groupByCategory(data));
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { type: XLSX_MIME_TYPE });
+  }
+
+  private static addSearchSheet(workbook: Workbook, data: BusinessData[], search?: SearchParams): void {
+    const rows: [string, ExportValue][] = [
+      ['Exported At', new Date()],
+      ['Location', search?.location],
+      ['Categories', search?.categories.join(', ')],
+      ['Radius (m)', search?.radius],
+      ['Latitude', search?.coordinates?.lat],
+      ['Longitude', search?.coordinates?.lng],
+      ['Max Results', search?.maxResults],
+      ['Search Mode', search?.searchMode],
+      ['Area Sweep', search ? Boolean(search.areaSweep) : undefined],
+      ['Website Enrichment', search ? Boolean(search.enrichWebsites) : undefined],
+      ['Reviews Collected', search ? Boolean(search.includeReviews) : undefined],
+      ['Businesses', data.length],
+      ['With Website', data.filter(business => business.website).length],
+      ['With Phone', data.filter(business => business.phone).length],
+      ['Reviews', data.reduce((sum, business) => sum + (business.reviews?.length || 0), 0)]
     ];
 
-    const csvContent = [
-      headers.join(','),
-      ...data.map(business => [
-        `"${business.name.replace(/"/g, '""')}"`,
-        `"${business.address.replace(/"/g, '""')}"`,
-        `"${business.phone || ''}"`,
-        `"${business.website || ''}"`,
-        business.rating || '',
-        business.reviewCount || '',
-        `"${business.category || ''}"`,
-        `"${business.hours || ''}"`,
-        business.coordinates ? 
-          `"${business.coordinates.lat},${business.coordinates.lng}"` : '',
-        business.scrapedAt.toISOString()
-      ].join(','))
-    ].join('\n');
+    DataExporter.addSheet<[string, ExportValue]>(workbook, 'Search', [
+      { header: 'Field', width: 20, value: row => row[0] },
+      { header: 'Value', width: 40, value: row => row[1] }
+    ], rows.filter(row => row[1] !== undefined && row[1] !== ''));
+  }
 
-    return csvContent;
+  private static groupByCategory(data: BusinessData[]): { category: string; businesses: BusinessData[] }[] {
+    const groups = new Map<string, BusinessData[]>();
+    data.forEach(business => {
+      const category = business.category || 'Uncategorized';
+      groups.set(category, [...(groups.get(category) || []), business]);
+    });
+    return Array.from(groups.entries())
+      .map(([category, businesses]) => ({ category, businesses }))
+      .sort((a, b) => b.businesses.length - a.businesses.length);
   }
 
+  // Bold, frozen header row with an auto-filter over all columns
+  private static addSheet<T>(workbook: Workbook, name: string, columns: ExportColumn<T>[], rows: T[]): void {
+    const sheet = workbook.addWorksheet(name, {
+      views: [{ state: 'frozen', ySplit: 1 }]
+    });
+    sheet.columns = columns.map(column => ({
+      header: column.header,
+      width: column.width,
+      style: column.numFmt ? { numFmt: column.numFmt } : {}
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    rows.forEach(row => {
+      const added = sheet.addRow(columns.map(column => {
+        const value = column.value(row);
+        return value === undefined || value === '' ? null : value;
+      }));
+      added.eachCell(cell => {
+        if (cell.value instanceof Date && !cell.numFmt) {
+          cell.numFmt = DATE_FORMAT;
+        } else if (cell.value && typeof cell.value === 'object' && 'hyperlink' in cell.value) {
+          cell.font = { color: { argb: 'FF2563EB' }, underline: true };
+        }
+      });
+    });
+
+    sheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: columns.length }
+    };
+  }
+
+  // Runs on the server (POST /api/export/sheets), which holds the service account;
+  // resolves to the URL of the written tab
   static async exportToGoogleSheets(
     data: BusinessData[], 
     config: GoogleSheetsConfig,
     options: ExportOptions
   ): Promise<string> {
-    try {
-      // This would require Google Sheets API setup
-      throw new Error('Google Sheets integration requires API setup. Use CSV export for now.');
-    } catch (error) {
-      console.error('Error exporting to Google Sheets:', error);
-      throw new Error('Failed to export to Google Sheets');
+    const response = await fetch('/api/export/sheets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        businesses: data,
+        config: { spreadsheetId: config.spreadsheetId, sheetName: config.sheetName },
+        options
+      })
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.error('Error exporting to Google Sheets:', result);
+      throw new Error(result.message || result.error || 'Failed to export to Google Sheets');
+    }
+    return result.sheetUrl;
+  }
+
+  // Records a map export has to leave out
+  static missingCoordinates(data: BusinessData[]): BusinessData[] {
+    return data.filter(business => !hasCoordinates(business));
+  }
+
+  static generateGeoFile(data: BusinessData[], format: GeoFormat): GeoExport {
+    switch (format) {
+      case 'geojson':
+        return DataExporter.generateGeoJSON(data);
+      case 'kml':
+        return DataExporter.generateKML(data);
+      case 'gpx':
+        return DataExporter.generateGPX(data);
     }
   }
 
+  // RFC 7946 FeatureCollection; every field except coordinates becomes a property
+  static generateGeoJSON(data: BusinessData[]): GeoExport {
+    const located = data.filter(hasCoordinates);
+    const collection = {
+      type: 'FeatureCollection',
+      features: located.map(business => {
+        const { coordinates, ...properties } = business;
+        return {
+          type: 'Feature',
+          id: business.id,
+          geometry: { type: 'Point', coordinates: [coordinates!.lng, coordinates!.lat] },
+          properties
+        };
+      })
+    };
+
+    return {
+      content: JSON.stringify(collection, null, 2),
+      exported: located.length,
+      missingCoordinates: DataExporter.missingCoordinates(data)
+    };
+  }
+
+  // One folder per category; the export columns go into each placemark's ExtendedData
+  static generateKML(data: BusinessData[]): GeoExport {
+    const located = data.filter(hasCoordinates);
+    const folders = new Map<string, BusinessData[]>();
+    located.forEach(business => {
+      const category = business.category || 'Uncategorized';
+      folders.set(category, [...(folders.get(category) || []), business]);
+    });
+
+    const placemark = (business: BusinessData): string => {
+      const extendedData = ALL_COLUMNS
+        .map(column => ({ name: column.header, value: formatCSVValue(column.value(business), column.numFmt) }))
+        .filter(entry => entry.value)
+        .map(entry => `        <Data name="${escapeXML(entry.name)}"><value>${escapeXML(entry.value)}</value></Data>`);
+      const description = [business.address, business.phone, business.website].filter(Boolean).join('\n');
+
+      return [
+        `    <Placemark id="${escapeXML(business.id)}">`,
+        `      <name>${escapeXML(business.name)}</name>`,
+        `      <address>${escapeXML(business.address)}</address>`,
+        ...(business.phone ? [`      <phoneNumber>${escapeXML(business.phone)}</phoneNumber>`] : []),
+        `      <description>${escapeXML(description)}</description>`,
+        `      <ExtendedData>`,
+        ...extendedData,
+        `      </ExtendedData>`,
+        `      <Point><coordinates>${business.coordinates!.lng},${business.coordinates!.lat}</coordinates></Point>`,
+        `    </Placemark>`
+      ].join('\n');
+    };
+
+    const content = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<kml xmlns="http://www.opengis.net/kml/2.2">',
+      '<Document>',
+      '  <name>MapDataMiner export</name>',
+      ...Array.from(folders.entries()).map(([category, businesses]) => [
+        '  <Folder>',
+        `    <name>${escapeXML(category)}</name>`,
+        ...businesses.map(placemark),
+        '  </Folder>'
+      ].join('\n')),
+      '</Document>',
+      '</kml>'
+    ].join('\n');
+
+    return {
+      content,
+      exported: located.length,
+      missingCoordinates: DataExporter.missingCoordinates(data)
+    };
+  }
+
+  // GPX 1.1 waypoints; child elements follow the order the schema requires
+  static generateGPX(data: BusinessData[]): GeoExport {
+    const located = data.filter(hasCoordinates);
+
+    const waypoint = (business: BusinessData): string => {
+      const time = toDate(business.scrapedAt);
+      const description = [business.address, business.phone].filter(Boolean).join(' · ');
+      return [
+        `  <wpt lat="${business.coordinates!.lat}" lon="${business.coordinates!.lng}">`,
+        ...(time ? [`    <time>${time.toISOString()}</time>`] : []),
+        `    <name>${escapeXML(business.name)}</name>`,
+        ...(description ? [`    <desc>${escapeXML(description)}</desc>`] : []),
+        ...(business.website
+          ? [`    <link href="${escapeXML(business.website)}"><text>Website</text></link>`]
+          : []),
+        ...(business.category ? [`    <type>${escapeXML(business.category)}</type>`] : []),
+        '  </wpt>'
+      ].join('\n');
+    };
+
+    const content = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gpx version="1.1" creator="MapDataMiner" xmlns="http://www.topografix.com/GPX/1/1">',
+      '  <metadata>',
+      '    <name>MapDataMiner export</name>',
+      `    <time>${new Date().toISOString()}</time>`,
+      '  </metadata>',
+      ...located.map(waypoint),
+      '</gpx>'
+    ].join('\n');
+
+    return {
+      content,
+      exported: located.length,
+      missingCoordinates: DataExporter.missingCoordinates(data)
+    };
+  }
+
+  // Typed, versioned records for warehouse loads (see lib/export-schema.ts); large
+  // jobs can stream the same formats from GET /api/export/stream
+  static async generateDataFile(data: BusinessData[], format: DataFormat): Promise<Blob> {
+    switch (format) {
+      case 'jsonl':
+        return new Blob([DataExporter.generateJSONLines(data)], { type: DATA_FORMATS.jsonl.mimeType });
+      case 'parquet':
+        return DataExporter.generateParquet(data);
+    }
+  }
+
+  static generateJSONLines(data: BusinessData[]): string {
+    return data.map(business => toJSONLine(business) + '\n').join('');
+  }
+
+  static async generateParquet(data: BusinessData[]): Promise<Blob> {
+    const writer = await createByteWriter();
+    await writeParquet(data, writer);
+    return new Blob([writer.getBuffer()], { type: DATA_FORMATS.parquet.mimeType });
+  }
+
   static downloadCSV(csvContent: string, filename: string): void {
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    DataExporter.downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), filename);
+  }
+
+  static downloadBlob(blob: Blob, filename: string): void {
     const link = document.createElement('a');
     
     if (link.download !== undefined) {
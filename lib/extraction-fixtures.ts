@@ -0,0 +1,171 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BusinessData } from '@/types';
+import { normalizePlaceKey } from '@/lib/cache';
+import { DEFAULT_SELECTOR_PROFILE } from '@/lib/selector-profile';
+import type { GoogleMapsScraper } from '@/lib/scraper';
+
+export type FixtureKind = 'place' | 'results';
+
+// 'maps' pages were captured from Google Maps and catch selector drift;
+// 'synthetic' pages come from another origin such as the mock server, so they
+// only catch regressions against markup this repo wrote
+export type FixtureSource = 'maps' | 'synthetic';
+
+// Saved next to `<name>.html`. `expected` is what the extractor produced at capture
+// time; review it by hand before committing, since it becomes the assertion
+export interface FixtureMeta {
+  url: string;
+  source: FixtureSource;
+  capturedAt: string;
+  profileVersion: string;
+  expected: Partial<BusinessData> | string[];
+}
+
+export interface FixtureMismatch {
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface FixtureResult {
+  name: string;
+  kind: FixtureKind;
+  source?: FixtureSource;
+  passed: boolean;
+  mismatches: FixtureMismatch[];
+  error?: string;
+}
+
+const FIXTURE_DIR = process.env.FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'extraction');
+
+const KIND_DIRECTORIES: Record<FixtureKind, string> = {
+  place: 'places',
+  results: 'results'
+};
+
+// Fields that differ on every run and are never asserted
+// (quality follows the selectors in `extraction`)
+const VOLATILE_FIELDS = ['id', 'scrapedAt', 'extraction', 'quality', 'matchedCategories'];
+
+function fixtureName(url: string): string {
+  return normalizePlaceKey(url)
+    .replace(/[^\w]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+function fixtureSource(url: string): FixtureSource {
+  try {
+    return /(^|\.)google\.[a-z.]+$/.test(new URL(url).hostname) ? 'maps' : 'synthetic';
+  } catch (error) {
+    return 'synthetic';
+  }
+}
+
+// Snapshots replay with scripts disabled, so inline scripts (which carry Maps
+// session tokens) are dropped before saving
+function sanitizeSnapshot(html: string): string {
+  return html
+    .replace(/<script\b[\s\S]*?<\/script>/gi, '')
+    .replace(/<noscript\b[\s\S]*?<\/noscript>/gi, '');
+}
+
+function stripVolatile(business: BusinessData): Partial<BusinessData> {
+  const stable: Record<string, unknown> = { ...business };
+  VOLATILE_FIELDS.forEach(field => delete stable[field]);
+  // Round-trip so the fixture compares like JSON read back from disk
+  return JSON.parse(JSON.stringify(stable));
+}
+
+export async function saveFixture(
+  kind: FixtureKind,
+  url: string,
+  html: string,
+  expected: BusinessData | string[]
+): Promise<string> {
+  const directory = path.join(FIXTURE_DIR, KIND_DIRECTORIES[kind]);
+  const name = fixtureName(url);
+  const meta: FixtureMeta = {
+    url,
+    source: fixtureSource(url),
+    capturedAt: new Date().toISOString(),
+    profileVersion: DEFAULT_SELECTOR_PROFILE.version,
+    expected: Array.isArray(expected) ? expected : stripVolatile(expected)
+  };
+
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(path.join(directory, `${name}.html`), sanitizeSnapshot(html), 'utf8');
+  await fs.writeFile(path.join(directory, `${name}.json`), JSON.stringify(meta, null, 2), 'utf8');
+  return name;
+}
+
+async function listFixtures(kind: FixtureKind): Promise<string[]> {
+  try {
+    const files = await fs.readdir(path.join(FIXTURE_DIR, KIND_DIRECTORIES[kind]));
+    return files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length)).sort();
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+function compareFields(expected: Record<string, unknown>, actual: Record<string, unknown>): FixtureMismatch[] {
+  const fields = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)]));
+
+  return fields
+    .filter(field => JSON.stringify(expected[field]) !== JSON.stringify(actual[field]))
+    .map(field => ({ field, expected: expected[field], actual: actual[field] }));
+}
+
+function compareLinks(expected: string[], actual: string[]): FixtureMismatch[] {
+  const actualLinks = new Set(actual);
+  const expectedLinks = new Set(expected);
+  const missing = expected.filter(link => !actualLinks.has(link));
+  const unexpected = actual.filter(link => !expectedLinks.has(link));
+
+  return [
+    ...missing.map(link => ({ field: 'links', expected: link, actual: undefined })),
+    ...unexpected.map(link => ({ field: 'links', expected: undefined, actual: link }))
+  ];
+}
+
+async function runFixture(scraper: GoogleMapsScraper, kind: FixtureKind, name: string): Promise<FixtureResult> {
+  const directory = path.join(FIXTURE_DIR, KIND_DIRECTORIES[kind]);
+
+  try {
+    const meta: FixtureMeta = JSON.parse(await fs.readFile(path.join(directory, `${name}.json`), 'utf8'));
+    const html = await fs.readFile(path.join(directory, `${name}.html`), 'utf8');
+
+    const mismatches = kind === 'place'
+      ? compareFields(
+          meta.expected as Record<string, unknown>,
+          stripVolatile(await scraper.extractBusinessFromSnapshot(html, meta.url)) as Record<string, unknown>
+        )
+      : compareLinks(meta.expected as string[], await scraper.extractResultLinksFromSnapshot(html));
+
+    return { name, kind, source: meta.source || 'synthetic', passed: mismatches.length === 0, mismatches };
+  } catch (error) {
+    return {
+      name,
+      kind,
+      passed: false,
+      mismatches: [],
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Replay every saved fixture through the scraper's extraction code. The scraper
+// must be initialized; snapshots are loaded without scripts or network access
+export async function runExtractionFixtures(scraper: GoogleMapsScraper): Promise<FixtureResult[]> {
+  const results: FixtureResult[] = [];
+
+  for (const kind of ['place', 'results'] as FixtureKind[]) {
+    for (const name of await listFixtures(kind)) {
+      results.push(await runFixture(scraper, kind, name));
+    }
+  }
+
+  return results;
+}
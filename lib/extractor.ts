@@ -0,0 +1,216 @@
+import { Page } from 'puppeteer-core';
+import { extractPlaceId } from '@/lib/cache';
+import {
+  DEFAULT_SELECTOR_PROFILE,
+  ExtractedField,
+  ExtractedPlace,
+  FieldSpec,
+  PostProcessor,
+  SelectorProfile
+} from '@/lib/selector-profile';
+
+export interface FieldCandidate {
+  selector: string;
+  value: string | string[];
+}
+
+export type FieldCandidates = Partial<Record<ExtractedField, FieldCandidate[]>>;
+
+export interface ExtractionResult {
+  place: ExtractedPlace;
+  profileVersion: string;
+  // Winning selector per field, for spotting rules that stopped matching
+  matchedSelectors: Partial<Record<ExtractedField, string>>;
+}
+
+// DOM half of the engine: the raw value of every rule that matched, per field.
+// Puppeteer serializes this into the page, so it must not reference anything outside itself
+export function readFieldCandidates(
+  fields: Record<string, FieldSpec>,
+  root: ParentNode = document
+): Record<string, FieldCandidate[]> {
+  const candidates: Record<string, FieldCandidate[]> = {};
+
+  Object.keys(fields).forEach(field => {
+    candidates[field] = [];
+
+    fields[field].rules.forEach(rule => {
+      const readValue = (element: Element): string => {
+        if (!rule.attribute) return (element.textContent || '').trim();
+        // Anchors resolve relative hrefs through the property
+        if (rule.attribute === 'href' && 'href' in element) {
+          return String((element as HTMLAnchorElement).href || '').trim();
+        }
+        return (element.getAttribute(rule.attribute) || '').trim();
+      };
+
+      let elements: Element[];
+      try {
+        elements = Array.from(root.querySelectorAll(rule.selector));
+      } catch (error) {
+        // Invalid selector in the profile; skip it rather than failing the whole place
+        return;
+      }
+
+      if (rule.all) {
+        const values = elements.map(readValue).filter(value => value.length > 0);
+        if (values.length > 0) {
+          candidates[field].push({ selector: rule.selector, value: rule.join !== undefined ? values.join(rule.join) : values });
+        }
+        return;
+      }
+
+      const value = elements.length > 0 ? readValue(elements[0]) : '';
+      if (value) {
+        candidates[field].push({ selector: rule.selector, value });
+      }
+    });
+  });
+
+  return candidates;
+}
+
+const PHONE_PATTERN = /[\d\+\-\(\)\s]{7,}/;
+
+// Normalize "$$", "€€€" or "Price: Moderate" to the $–$$$$ scale; ranges like "$10–20" are not levels
+export function parsePriceLevel(raw: string): string | undefined {
+  if (!raw) return undefined;
+
+  const symbols = raw.match(/(?:^|[^\d$€£¥₩₹])([$€£¥₩₹]{1,4})(?![\d$€£¥₩₹])/);
+  if (symbols) return '$'.repeat(symbols[1].length);
+
+  // "Inexpensive" contains "expensive", so it is checked first
+  if (/inexpensive|cheap/i.test(raw)) return '$';
+  if (/very expensive/i.test(raw)) return '$$$$';
+  if (/expensive/i.test(raw)) return '$$$';
+  if (/moderate/i.test(raw)) return '$$';
+  return undefined;
+}
+
+// Each processor returns undefined to reject the candidate, so the next rule gets a
+// chance. Input is whatever the previous processor (or the page) produced
+const POST_PROCESSORS: Record<PostProcessor, (value: unknown) => unknown> = {
+  text: (value) => (typeof value === 'string' && value.trim()) || undefined,
+  rating: (value) => {
+    const rating = parseFloat(String(value));
+    return !isNaN(rating) && rating > 0 && rating <= 5 ? rating : undefined;
+  },
+  count: (value) => {
+    const match = String(value).match(/(\d+(?:,\d+)*)/);
+    const count = match ? parseInt(match[1].replace(/,/g, '')) : 0;
+    return count > 0 ? count : undefined;
+  },
+  phone: (value) => (typeof value === 'string' && PHONE_PATTERN.test(value) ? value : undefined),
+  externalUrl: (value) =>
+    typeof value === 'string' && value.startsWith('http') && !value.includes('google.com') ? value : undefined,
+  priceLevel: (value) => (typeof value === 'string' ? parsePriceLevel(value) : undefined),
+  placeId: (value) => (typeof value === 'string' ? extractPlaceId(value) : undefined),
+  urlList: (value) => {
+    const urls = (Array.isArray(value) ? value : [value])
+      .filter((url): url is string => typeof url === 'string' && url.startsWith('http'));
+    const unique = Array.from(new Set(urls));
+    return unique.length > 0 ? unique : undefined;
+  }
+};
+
+// Node half of the engine: run post-processors and keep the first candidate that survives
+export function resolveFieldCandidates(
+  candidates: FieldCandidates,
+  profile: SelectorProfile = DEFAULT_SELECTOR_PROFILE
+): ExtractionResult {
+  const place: Record<string, unknown> = {};
+  const matchedSelectors: Partial<Record<ExtractedField, string>> = {};
+
+  (Object.keys(profile.fields) as ExtractedField[]).forEach(field => {
+    const processors = profile.fields[field].process || [];
+
+    for (const candidate of candidates[field] || []) {
+      let value: unknown = candidate.value;
+      for (const processor of processors) {
+        if (value === undefined) break;
+        value = POST_PROCESSORS[processor](value);
+      }
+
+      if (value !== undefined && value !== '') {
+        place[field] = value;
+        matchedSelectors[field] = candidate.selector;
+        break;
+      }
+    }
+  });
+
+  return {
+    place: place as ExtractedPlace,
+    profileVersion: profile.version,
+    matchedSelectors
+  };
+}
+
+export async function extractPlaceDetails(
+  page: Page,
+  profile: SelectorProfile = DEFAULT_SELECTOR_PROFILE
+): Promise<ExtractionResult> {
+  const candidates = await page.evaluate(readFieldCandidates, profile.fields);
+  return resolveFieldCandidates(candidates, profile);
+}
+
+// Place links on a results page, merged from the three link shapes Maps has used
+export async function extractResultLinks(page: Page): Promise<string[]> {
+  let businessLinks: string[] = [];
+  
+  // Method 1: Look for directions links (most reliable) - OPTIMIZED
+  try {
+    businessLinks = await page.$$eval(
+      'a[data-value="Directions"]',
+      (links) => links.map(link => link.getAttribute('href')).filter(Boolean) as string[]
+    );
+    console.log(`📍 Method 1 found ${businessLinks.length} businesses`);
+  } catch (e) {
+    console.log('❌ Method 1 failed, trying method 2...');
+  }
+
+  // Method 2: Look for place links (comprehensive) - OPTIMIZED
+  try {
+    const method2Links = await page.$$eval(
+      'a[href*="/maps/place/"]',
+      (links) => links.map(link => link.getAttribute('href')).filter(Boolean) as string[]
+    );
+    
+    // Combine and deduplicate
+    const allLinks = Array.from(new Set([...businessLinks, ...method2Links]));
+    businessLinks = allLinks;
+    console.log(`📍 Method 2 found ${method2Links.length} additional businesses (total: ${businessLinks.length})`);
+  } catch (e) {
+    console.log('❌ Method 2 failed, trying method 3...');
+  }
+
+  // Method 3: Look for clickable business entries - OPTIMIZED
+  try {
+    const method3Links = await page.$$eval(
+      '.hfpxzc[href*="/maps/place/"], [role="link"][href*="/maps/place/"]',
+      (elements) => {
+        return elements.map(el => {
+          const href = el.getAttribute('href');
+          if (href && href.includes('/maps/place/')) {
+            return href;
+          }
+          return null;
+        }).filter(Boolean) as string[];
+      }
+    );
+    
+    // Combine and deduplicate
+    const allLinks = Array.from(new Set([...businessLinks, ...method3Links]));
+    businessLinks = allLinks;
+    console.log(`📍 Method 3 found ${method3Links.length} additional businesses (total: ${businessLinks.length})`);
+  } catch (e) {
+    console.log('❌ Method 3 failed');
+  }
+
+  // Final deduplication and validation - OPTIMIZED
+  businessLinks = Array.from(new Set(businessLinks)).filter(link => 
+    link && link.includes('/maps/place/') && link.length > 10
+  );
+
+  return businessLinks;
+}
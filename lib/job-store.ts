@@ -0,0 +1,365 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { BusinessData, SearchParams } from '@/types';
+import { ScrapingJobStatus } from '@/lib/scraper-manager';
+
+export interface JobRecord {
+  id: string;
+  params: SearchParams;
+  status: ScrapingJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  businessLinks: string[];
+  // Category queries that returned each link
+  linkCategories?: Record<string, string[]>;
+  scrapedLinks: string[];
+  businesses: BusinessData[];
+}
+
+// What listing needs, without the scraped businesses
+export type JobSummary = Omit<JobRecord, 'scrapedLinks' | 'businesses'> & { scrapedCount: number };
+
+// Storage backend for scraping job checkpoints. Swap the default with setJobStore()
+export interface JobStore {
+  createJob(jobId: string, params: SearchParams): Promise<void>;
+  getJob(jobId: string): Promise<JobRecord | null>;
+  getJobSummary(jobId: string): Promise<JobSummary | null>;
+  // A job's businesses one at a time, without loading the whole job
+  readBusinesses(jobId: string): AsyncIterable<BusinessData>;
+  listJobs(): Promise<JobSummary[]>;
+  updateStatus(jobId: string, status: ScrapingJobStatus): Promise<void>;
+  saveLinks(jobId: string, links: string[], linkCategories?: Record<string, string[]>): Promise<void>;
+  saveBusiness(jobId: string, link: string, business: BusinessData): Promise<void>;
+  // Replace the business saved under `link`, e.g. once enrichment has added contacts
+  updateBusiness(jobId: string, link: string, business: BusinessData): Promise<void>;
+  deleteJob(jobId: string): Promise<void>;
+}
+
+const JOB_ID_PATTERN = /^[\w-]+$/;
+
+// Job IDs become file names, so only word characters and dashes are accepted
+export function isValidJobId(jobId: string): boolean {
+  return JOB_ID_PATTERN.test(jobId);
+}
+
+// Finished jobs older than this are deleted from disk; 0 keeps them forever
+const JOB_RETENTION_MS = parseInt(process.env.JOB_RETENTION_HOURS || '168') * 60 * 60 * 1000;
+
+
+// One line of the businesses log
+interface BusinessEntry {
+  link: string;
+  business: BusinessData;
+  savedAt: string;
+}
+
+const isActive = (status: ScrapingJobStatus): boolean => status === 'running' || status === 'paused';
+
+const reviveBusiness = (entry: BusinessEntry): BusinessData =>
+  ({ ...entry.business, scrapedAt: new Date(entry.business.scrapedAt) });
+
+function toSummary(record: JobRecord): JobSummary {
+  const { scrapedLinks, businesses, ...metadata } = record;
+  return { ...metadata, scrapedCount: scrapedLinks.length };
+}
+
+// Two files per job: <id>.json holds the small, rarely changing metadata and is
+// rewritten atomically; <id>.jsonl is an append-only log of scraped businesses,
+// so saving a business costs one line instead of a rewrite of the whole job.
+// The metadata also carries the scraped count, so listing never reads the logs.
+// Only jobs running in this process stay in memory
+export class FileJobStore implements JobStore {
+  private directory: string;
+  private activeRecords = new Map<string, JobRecord>();
+  private writeQueues = new Map<string, Promise<void>>();
+
+  constructor(directory: string = process.env.JOB_STORE_DIR || path.join(process.cwd(), '.data', 'jobs')) {
+    this.directory = directory;
+  }
+
+  async createJob(jobId: string, params: SearchParams): Promise<void> {
+    const now = new Date().toISOString();
+    const record: JobRecord = {
+      id: jobId,
+      params,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      businessLinks: [],
+      scrapedLinks: [],
+      businesses: []
+    };
+
+    await this.enqueue(jobId, async () => {
+      this.activeRecords.set(jobId, record);
+      await this.writeMetadata(record);
+      await fs.rm(this.logPath(jobId), { force: true });
+    });
+
+    this.pruneExpiredJobs().catch(error =>
+      console.error('⚠️ Failed to prune expired jobs:', error instanceof Error ? error.message : 'Unknown error')
+    );
+  }
+
+  async getJob(jobId: string): Promise<JobRecord | null> {
+    return this.activeRecords.get(jobId) || this.readFromDisk(jobId);
+  }
+
+  async getJobSummary(jobId: string): Promise<JobSummary | null> {
+    const active = this.activeRecords.get(jobId);
+    return active ? toSummary(active) : this.readMetadata(jobId);
+  }
+
+  // Two passes over the log: the first notes each link's last entry, the second
+  // yields only those. Memory holds one link per business instead of the
+  // businesses, and they come out in the order they were last saved
+  async *readBusinesses(jobId: string): AsyncGenerator<BusinessData> {
+    const active = this.activeRecords.get(jobId);
+    if (active) {
+      yield* active.businesses.slice();
+      return;
+    }
+
+    const lastLine = new Map<string, number>();
+    let lineCount = 0;
+    for await (const { entry, line } of this.readLog(jobId)) {
+      lastLine.set(entry.link, line);
+      lineCount = line + 1;
+    }
+
+    // Lines appended after the first pass belong to a later snapshot
+    for await (const { entry, line } of this.readLog(jobId)) {
+      if (line >= lineCount) break;
+      if (lastLine.get(entry.link) === line) {
+        yield reviveBusiness(entry);
+      }
+    }
+  }
+
+  // Reads only the metadata files, so listing doesn't load every job's businesses
+  async listJobs(): Promise<JobSummary[]> {
+    const summaries = await Promise.all((await this.listJobIds()).map(async jobId => {
+      return this.getJobSummary(jobId);
+    }));
+    return summaries.filter((summary): summary is JobSummary => summary !== null);
+  }
+
+  async updateStatus(jobId: string, status: ScrapingJobStatus): Promise<void> {
+    await this.enqueue(jobId, async () => {
+      const record = await this.load(jobId);
+      record.status = status;
+      record.updatedAt = new Date().toISOString();
+      await this.writeMetadata(record);
+      if (!isActive(status)) {
+        this.activeRecords.delete(jobId);
+      }
+    });
+  }
+
+  async saveLinks(jobId: string, links: string[], linkCategories?: Record<string, string[]>): Promise<void> {
+    await this.enqueue(jobId, async () => {
+      const record = await this.load(jobId);
+      record.businessLinks = [...links];
+      record.linkCategories = linkCategories;
+      record.updatedAt = new Date().toISOString();
+      await this.writeMetadata(record);
+    });
+  }
+
+  async saveBusiness(jobId: string, link: string, business: BusinessData): Promise<void> {
+    await this.enqueue(jobId, async () => {
+      const record = await this.load(jobId);
+      if (record.scrapedLinks.includes(link)) return;
+      await this.appendEntry(record, { link, business, savedAt: new Date().toISOString() });
+    });
+  }
+
+  async updateBusiness(jobId: string, link: string, business: BusinessData): Promise<void> {
+    await this.enqueue(jobId, async () => {
+      const record = await this.load(jobId);
+      await this.appendEntry(record, { link, business, savedAt: new Date().toISOString() });
+    });
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    await this.enqueue(jobId, async () => {
+      this.activeRecords.delete(jobId);
+      await fs.rm(this.filePath(jobId), { force: true });
+      await fs.rm(this.logPath(jobId), { force: true });
+    });
+  }
+
+  // Delete jobs not touched within JOB_RETENTION_HOURS. Jobs running in this
+  // process are kept; interrupted ones expire like finished ones
+  async pruneExpiredJobs(): Promise<number> {
+    if (JOB_RETENTION_MS <= 0) return 0;
+
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    let removed = 0;
+    for (const jobId of await this.listJobIds()) {
+      if (this.activeRecords.has(jobId)) continue;
+
+      const modified = await Promise.all([this.filePath(jobId), this.logPath(jobId)].map(file =>
+        fs.stat(file).then(stats => stats.mtimeMs, () => 0)
+      ));
+      if (Math.max(...modified) < cutoff) {
+        await this.deleteJob(jobId);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} expired scraping jobs`);
+    }
+    return removed;
+  }
+
+  private filePath(jobId: string): string {
+    if (!isValidJobId(jobId)) {
+      throw new Error(`Invalid job ID: ${jobId}`);
+    }
+    return path.join(this.directory, `${jobId}.json`);
+  }
+
+  private logPath(jobId: string): string {
+    return this.filePath(jobId).replace(/\.json$/, '.jsonl');
+  }
+
+  private async listJobIds(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length))
+      .filter(isValidJobId);
+  }
+
+  private async readMetadata(jobId: string): Promise<JobSummary | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(jobId), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async readFromDisk(jobId: string): Promise<JobRecord | null> {
+    const summary = await this.readMetadata(jobId);
+    if (!summary) return null;
+    const { scrapedCount, ...metadata } = summary;
+
+    const record: JobRecord = { ...metadata, scrapedLinks: [], businesses: [] };
+    for await (const { entry } of this.readLog(jobId)) {
+      this.applyEntry(record, entry);
+    }
+    return record;
+  }
+
+  // Log entries with their line numbers, read a line at a time
+  private async *readLog(jobId: string): AsyncGenerator<{ entry: BusinessEntry; line: number }> {
+    const logPath = this.logPath(jobId);
+    try {
+      await fs.access(logPath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    const input = createReadStream(logPath, 'utf8');
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    let line = -1;
+    try {
+      for await (const text of lines) {
+        line++;
+        if (!text.trim()) continue;
+        let entry: BusinessEntry;
+        try {
+          entry = JSON.parse(text);
+        } catch (error) {
+          // A crash mid-append leaves a partial last line
+          continue;
+        }
+        yield { entry, line };
+      }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+
+  // Later entries for a link replace earlier ones
+  private applyEntry(record: JobRecord, entry: BusinessEntry): void {
+    const business = reviveBusiness(entry);
+    const index = record.scrapedLinks.indexOf(entry.link);
+    if (index === -1) {
+      record.scrapedLinks.push(entry.link);
+      record.businesses.push(business);
+    } else {
+      record.businesses[index] = business;
+    }
+    if (entry.savedAt > record.updatedAt) {
+      record.updatedAt = entry.savedAt;
+    }
+  }
+
+  private async appendEntry(record: JobRecord, entry: BusinessEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(this.logPath(record.id), JSON.stringify(entry) + '\n', 'utf8');
+    this.applyEntry(record, entry);
+    await this.writeMetadata(record);
+  }
+
+  // Record a job is about to change; it stays in memory while the job is active
+  private async load(jobId: string): Promise<JobRecord> {
+    const cached = this.activeRecords.get(jobId);
+    if (cached) return cached;
+
+    const record = await this.readFromDisk(jobId);
+    if (!record) {
+      throw new Error(`Job ${jobId} not found in job store`);
+    }
+    if (isActive(record.status)) {
+      this.activeRecords.set(jobId, record);
+    }
+    return record;
+  }
+
+  private async writeMetadata(record: JobRecord): Promise<void> {
+    const target = this.filePath(record.id);
+    const temp = `${target}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(toSummary(record)), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  private enqueue(jobId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(jobId) || Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.writeQueues.set(jobId, next);
+    const cleanup = () => {
+      if (this.writeQueues.get(jobId) === next) {
+        this.writeQueues.delete(jobId);
+      }
+    };
+    return next.then(cleanup, (error) => {
+      cleanup();
+      throw error;
+    });
+  }
+}
+
+let jobStore: JobStore = new FileJobStore();
+
+export function getJobStore(): JobStore {
+  return jobStore;
+}
+
+export function setJobStore(store: JobStore): void {
+  jobStore = store;
+}
@@ -0,0 +1,48 @@
+import { CountryCode, NumberType, isSupportedCountry, parsePhoneNumberFromString } from 'libphonenumber-js/max';
+import { PhoneDetails, PhoneType, SearchParams } from '@/types';
+import { inferCountryFromCoordinates, inferCountryFromText } from '@/utils/countries';
+
+// Full metadata is needed for number types; keep this module out of client bundles
+
+const PHONE_TYPES: Partial<Record<NonNullable<NumberType>, PhoneType>> = {
+  MOBILE: 'mobile',
+  FIXED_LINE: 'landline',
+  // Most US and Canadian numbers
+  FIXED_LINE_OR_MOBILE: 'fixed-or-mobile',
+  TOLL_FREE: 'toll-free',
+  VOIP: 'voip',
+  PREMIUM_RATE: 'other',
+  SHARED_COST: 'other',
+  PERSONAL_NUMBER: 'other',
+  PAGER: 'other',
+  UAN: 'other',
+  VOICEMAIL: 'other'
+};
+
+export function getDefaultPhoneCountry(): string {
+  return (process.env.DEFAULT_PHONE_COUNTRY || 'US').toUpperCase();
+}
+
+// Country whose numbering plan applies to numbers found by this search
+export function inferSearchCountry(params: SearchParams): string | undefined {
+  return inferCountryFromText(params.location) || inferCountryFromCoordinates(params.coordinates);
+}
+
+// Parse a Maps display string ("(415) 555-0100", "+212 5 22-…") into E.164. Numbers
+// with a + prefix carry their own country; others are read in `country`
+export function normalizePhone(display: string, country: string = getDefaultPhoneCountry()): PhoneDetails {
+  const defaultCountry = isSupportedCountry(country) ? (country as CountryCode) : undefined;
+  const parsed = parsePhoneNumberFromString(display.trim(), defaultCountry);
+
+  if (!parsed || !parsed.isValid()) {
+    return { country: parsed?.country || defaultCountry, valid: false };
+  }
+
+  const numberType = parsed.getType();
+  return {
+    e164: parsed.number,
+    country: parsed.country || defaultCountry,
+    type: numberType ? PHONE_TYPES[numberType] : undefined,
+    valid: true
+  };
+}
@@ -0,0 +1,168 @@
+import { Page } from 'puppeteer-core';
+import { BusinessData, PopularTimes, Weekday } from '@/types';
+import { WEEKDAYS } from '@/utils/hours';
+
+// Selectors for the "Popular times" histogram and the attribute lists
+// ("Wheelchair-accessible entrance", "No outdoor seating", ...)
+export interface InsightSelectors {
+  // One element per weekday, Sunday first
+  popularTimesDays: string[];
+  // Bars inside a day, labelled "Usually 45% busy at 6 AM."
+  busynessBar: string[];
+  // Tab holding the full attribute list
+  aboutTab: string[];
+  // Labelled attribute items on the overview and the About tab
+  attribute: string[];
+}
+
+export const DEFAULT_INSIGHT_SELECTORS: InsightSelectors = {
+  popularTimesDays: ['.C7xf8b > div', '[aria-label^="Popular times"] > div'],
+  busynessBar: ['[aria-label*="busy" i]'],
+  aboutTab: ['button[role="tab"][aria-label^="About"]'],
+  attribute: ['.iP2t7d li [aria-label]', '.hpLkke [aria-label]', '.E0DTEd[aria-label]', '.LTs0Rc [aria-label]']
+};
+
+export interface RawPopularDay {
+  // Day container label, when it names the weekday
+  label: string;
+  bars: string[];
+}
+
+export type PlaceInsights = Pick<BusinessData, 'popularTimes' | 'attributes'>;
+
+// DOM half: bar labels per day. Puppeteer serializes this into the page, so it
+// must not reference anything outside itself
+export function readPopularTimes(selectors: InsightSelectors, root: ParentNode = document): RawPopularDay[] {
+  for (const daySelector of selectors.popularTimesDays) {
+    let days: Element[];
+    try {
+      days = Array.from(root.querySelectorAll(daySelector));
+    } catch (error) {
+      continue;
+    }
+
+    const parsed = days.map(day => ({
+      label: day.getAttribute('aria-label') || '',
+      bars: selectors.busynessBar
+        .flatMap(barSelector => Array.from(day.querySelectorAll(barSelector)))
+        .map(bar => bar.getAttribute('aria-label') || '')
+        .filter(Boolean)
+    })).filter(day => day.bars.length > 0);
+
+    if (parsed.length > 0) return parsed;
+  }
+  return [];
+}
+
+export function readAttributeLabels(selectors: InsightSelectors, root: ParentNode = document): string[] {
+  const labels: string[] = [];
+  selectors.attribute.forEach(selector => {
+    try {
+      root.querySelectorAll(selector).forEach(element => {
+        const label = (element.getAttribute('aria-label') || '').trim();
+        if (label && labels.indexOf(label) === -1) labels.push(label);
+      });
+    } catch (error) {
+      // Invalid selector; skip it
+    }
+  });
+  return labels;
+}
+
+// "Usually 45% busy at 6 AM." -> { hour: 6, percent: 45 }. The live bar reads
+// "Currently 30% busy, usually 45% busy." and takes its hour from the bar before it
+export function parseBusynessLabel(label: string): { hour?: number; percent: number } | null {
+  const usually = label.match(/usually\s+(\d{1,3})%/i) || label.match(/(\d{1,3})%/);
+  if (!usually) return null;
+
+  const percent = Math.min(100, parseInt(usually[1]));
+  const clock = label.match(/at\s+(\d{1,2})(?::00)?\s*(AM|PM)?/i);
+  if (!clock) return { percent };
+
+  let hour = parseInt(clock[1]) % 24;
+  if (clock[2]) {
+    hour = hour % 12 + (clock[2].toUpperCase() === 'PM' ? 12 : 0);
+  }
+  return { hour, percent };
+}
+
+export function parsePopularTimes(days: RawPopularDay[]): PopularTimes | undefined {
+  const popularTimes: PopularTimes = {};
+
+  days.forEach((day, index) => {
+    const named = WEEKDAYS.find(weekday => day.label.toLowerCase().includes(weekday));
+    const weekday: Weekday | undefined = named || WEEKDAYS[index];
+    if (!weekday) return;
+
+    const hours: number[] = new Array(24).fill(0);
+    let previousHour: number | undefined;
+    day.bars.forEach(bar => {
+      const parsed = parseBusynessLabel(bar);
+      if (!parsed) return;
+      const hour = parsed.hour ?? (previousHour !== undefined ? previousHour + 1 : undefined);
+      if (hour === undefined || hour > 23) return;
+      hours[hour] = parsed.percent;
+      previousHour = hour;
+    });
+
+    if (hours.some(percent => percent > 0)) {
+      popularTimes[weekday] = hours;
+    }
+  });
+
+  return Object.keys(popularTimes).length > 0 ? popularTimes : undefined;
+}
+
+const NEGATIVE_PREFIX = /^(no|not|doesn['’]t (?:have|offer|serve|accept|allow)|does not (?:have|offer|serve|accept|allow))\s+/i;
+const POSITIVE_PREFIX = /^(has|offers|serves|accepts|allows|provides|is)\s+/i;
+
+export function attributeKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+// "Has wheelchair-accessible entrance" -> wheelchair_accessible_entrance: true,
+// "No outdoor seating" -> outdoor_seating: false
+export function parseAttributeLabel(label: string): { key: string; value: boolean } | null {
+  const text = label.replace(/[.\s]+$/, '').trim();
+  const negative = text.match(NEGATIVE_PREFIX);
+  const name = negative ? text.slice(negative[0].length) : text.replace(POSITIVE_PREFIX, '');
+  const key = attributeKey(name);
+  return key ? { key, value: !negative } : null;
+}
+
+export function parseAttributes(labels: string[]): Record<string, boolean> | undefined {
+  const attributes: Record<string, boolean> = {};
+  labels.forEach(label => {
+    const parsed = parseAttributeLabel(label);
+    if (parsed) attributes[parsed.key] = parsed.value;
+  });
+  return Object.keys(attributes).length > 0 ? attributes : undefined;
+}
+
+// Read popular times and overview attributes, then the About tab for the full
+// attribute list. Leaves the About tab open
+export async function extractPlaceInsights(
+  page: Page,
+  selectors: InsightSelectors = DEFAULT_INSIGHT_SELECTORS
+): Promise<PlaceInsights> {
+  const days = await page.evaluate(readPopularTimes, selectors);
+  const labels = await page.evaluate(readAttributeLabels, selectors);
+
+  for (const tabSelector of selectors.aboutTab) {
+    const tab = await page.$(tabSelector).catch(() => null);
+    if (!tab) continue;
+
+    await tab.click();
+    await page.waitForSelector(selectors.attribute.join(', '), { timeout: 5000 }).catch(() => {});
+    const aboutLabels = await page.evaluate(readAttributeLabels, selectors);
+    aboutLabels.forEach(label => {
+      if (!labels.includes(label)) labels.push(label);
+    });
+    break;
+  }
+
+  return {
+    popularTimes: parsePopularTimes(days),
+    attributes: parseAttributes(labels)
+  };
+}
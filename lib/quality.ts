@@ -0,0 +1,136 @@
+import { BusinessData, DataQuality, FieldQuality, QualityFlag } from '@/types';
+import { DEFAULT_SELECTOR_PROFILE, ExtractedField, SelectorProfile } from '@/lib/selector-profile';
+
+// Fields that make up the record-level score and how much each counts
+const SCORED_FIELDS: Partial<Record<keyof BusinessData, number>> = {
+  name: 3,
+  address: 2,
+  phone: 2,
+  website: 1,
+  category: 1,
+  rating: 1
+};
+
+// Rules at or below this confidence are catch-all fallbacks
+const LOOSE_SELECTOR_CONFIDENCE = 0.5;
+
+// Confidence multiplier applied when a value fails validation
+const INVALID_VALUE_PENALTY = 0.2;
+
+// Placeholders buildBusiness() writes when the page had no value
+const PLACEHOLDERS: Partial<Record<keyof BusinessData, string>> = {
+  name: 'Unknown Business',
+  address: 'Address not available'
+};
+
+const GOOGLE_HOSTS = /(^|\.)(google\.[a-z.]+|goo\.gl|gstatic\.com|googleusercontent\.com)$/i;
+
+export function isValidPhone(phone: string): boolean {
+  const digits = phone.replace(/\D/g, '');
+  return /^[+\d\s().\-\/]+$/.test(phone.trim()) && digits.length >= 7 && digits.length <= 15;
+}
+
+// Syntactically usable external website: http(s), a dotted host, not a Google page
+export function isValidWebsite(website: string): boolean {
+  try {
+    const url = new URL(website);
+    return (url.protocol === 'http:' || url.protocol === 'https:') &&
+      url.hostname.includes('.') &&
+      !GOOGLE_HOSTS.test(url.hostname);
+  } catch (error) {
+    return false;
+  }
+}
+
+const normalizeText = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function hasValue(business: BusinessData, field: keyof BusinessData): boolean {
+  const value = business[field];
+  if (value === undefined || value === null || value === '') return false;
+  return value !== PLACEHOLDERS[field];
+}
+
+function ruleConfidence(profile: SelectorProfile, field: string, selector?: string): number {
+  const spec = profile.fields[field as ExtractedField];
+  const rule = spec && selector ? spec.rules.find(candidate => candidate.selector === selector) : undefined;
+  return rule?.confidence ?? 1;
+}
+
+function penalize(quality: FieldQuality | undefined, flag: QualityFlag, factor: number): void {
+  if (!quality) return;
+  quality.confidence *= factor;
+  quality.flags.push(flag);
+}
+
+// Provenance, confidence and validation flags per field, plus a 0–100 record score.
+// Records without an extraction report (older cache entries) are only validated
+export function assessQuality(
+  business: BusinessData,
+  profile: SelectorProfile = DEFAULT_SELECTOR_PROFILE
+): DataQuality {
+  const matchedSelectors = business.extraction?.matchedSelectors || {};
+  const fields: Record<string, FieldQuality> = {};
+
+  const assessedFields = Array.from(new Set([...Object.keys(matchedSelectors), ...Object.keys(SCORED_FIELDS)]));
+  assessedFields.forEach(field => {
+    const selector = matchedSelectors[field];
+    const present = field in SCORED_FIELDS ? hasValue(business, field as keyof BusinessData) : Boolean(selector);
+
+    if (!present) {
+      fields[field] = { confidence: 0, flags: ['missing'] };
+      return;
+    }
+
+    const confidence = ruleConfidence(profile, field, selector);
+    fields[field] = {
+      selector,
+      confidence,
+      flags: confidence <= LOOSE_SELECTOR_CONFIDENCE ? ['loose-selector'] : []
+    };
+  });
+
+  const phoneValid = business.phoneDetails ? business.phoneDetails.valid : isValidPhone(business.phone || '');
+  if (business.phone && !phoneValid) {
+    penalize(fields.phone, 'invalid-phone', INVALID_VALUE_PENALTY);
+  }
+
+  if (business.website && !isValidWebsite(business.website)) {
+    penalize(fields.website, 'invalid-url', INVALID_VALUE_PENALTY);
+  }
+
+  // A shared fallback selector usually puts the category text in both columns
+  if (
+    hasValue(business, 'address') &&
+    business.category &&
+    normalizeText(business.address) === normalizeText(business.category)
+  ) {
+    penalize(fields.address, 'address-matches-category', INVALID_VALUE_PENALTY);
+    penalize(fields.category, 'address-matches-category', 0.5);
+  }
+
+  Object.keys(fields).forEach(field => {
+    fields[field].confidence = Math.round(fields[field].confidence * 100) / 100;
+  });
+
+  const weights = Object.keys(SCORED_FIELDS) as (keyof BusinessData)[];
+  const totalWeight = weights.reduce((sum, field) => sum + (SCORED_FIELDS[field] || 0), 0);
+  const weighted = weights.reduce(
+    (sum, field) => sum + (SCORED_FIELDS[field] || 0) * (fields[field]?.confidence || 0),
+    0
+  );
+
+  return {
+    score: Math.round((weighted / totalWeight) * 100),
+    fields
+  };
+}
+
+// "phone: invalid-phone; website: loose-selector" for exports
+export function formatQualityFlags(quality?: DataQuality): string {
+  if (!quality) return '';
+
+  return Object.keys(quality.fields)
+    .filter(field => quality.fields[field].flags.length > 0 && !quality.fields[field].flags.includes('missing'))
+    .map(field => `${field}: ${quality.fields[field].flags.join(', ')}`)
+    .join('; ');
+}
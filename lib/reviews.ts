@@ -0,0 +1,229 @@
+import { Page } from 'puppeteer-core';
+import { BusinessReview } from '@/types';
+import { SelectorRule } from '@/lib/selector-profile';
+
+// Selectors for the reviews panel of a place page. Like the selector profile,
+// rules are tried in order and the first non-empty value wins
+export interface ReviewSelectors {
+  // Buttons that open the reviews panel
+  tab: string[];
+  // One element per review, carrying data-review-id
+  review: string[];
+  // Scrollable panel that loads more reviews as it is scrolled
+  scrollContainer: string[];
+  // "More" buttons that expand truncated review text
+  expand: string[];
+  // Container of the owner's reply, so its text is not read as the review's
+  ownerResponse: string[];
+  author: SelectorRule[];
+  rating: SelectorRule[];
+  date: SelectorRule[];
+  text: SelectorRule[];
+  ownerResponseText: SelectorRule[];
+  ownerResponseDate: SelectorRule[];
+}
+
+export const DEFAULT_REVIEW_SELECTORS: ReviewSelectors = {
+  tab: [
+    'button[role="tab"][aria-label^="Reviews"]',
+    'button[jsaction*="reviewChart.moreReviews"]',
+    'button[aria-label*="reviews" i]'
+  ],
+  review: ['div.jftiEf[data-review-id]', 'div[data-review-id][aria-label]'],
+  scrollContainer: ['.m6QErb.DxyBCb', 'div[role="main"] .m6QErb'],
+  expand: ['button.w8nwRe', 'button[aria-label="See more"]'],
+  ownerResponse: ['.CDe7pd'],
+  author: [
+    { selector: '.d4r55' },
+    { selector: '[data-review-id]', attribute: 'aria-label' }
+  ],
+  rating: [
+    { selector: '.kvMYJc', attribute: 'aria-label' },
+    { selector: 'span[role="img"][aria-label*="star"]', attribute: 'aria-label' },
+    { selector: '.fzvQIb' }
+  ],
+  date: [{ selector: '.rsqaWe' }, { selector: '.xRkPPb' }],
+  text: [{ selector: '.wiI7pd' }, { selector: '.MyEned span' }],
+  ownerResponseText: [{ selector: '.CDe7pd .wiI7pd' }],
+  ownerResponseDate: [{ selector: '.CDe7pd .DZSIDd' }]
+};
+
+export interface RawReview {
+  id: string;
+  author: string;
+  rating: string;
+  date: string;
+  text: string;
+  language: string;
+  ownerResponseText: string;
+  ownerResponseDate: string;
+}
+
+// DOM half: one raw record per review element. Puppeteer serializes this into the
+// page, so it must not reference anything outside itself
+export function readReviews(selectors: ReviewSelectors, root: ParentNode = document): RawReview[] {
+  const ownerResponseSelector = selectors.ownerResponse.join(', ');
+  const reviews: RawReview[] = [];
+  const seen = new Set<string>();
+
+  const readRules = (element: Element, rules: SelectorRule[], outsideOwnerResponse: boolean): { value: string; element?: Element } => {
+    for (const rule of rules) {
+      let matches: Element[];
+      try {
+        matches = element.matches(rule.selector) ? [element] : Array.from(element.querySelectorAll(rule.selector));
+      } catch (error) {
+        continue;
+      }
+      const match = matches.find(candidate => !outsideOwnerResponse || !ownerResponseSelector || !candidate.closest(ownerResponseSelector));
+      if (!match) continue;
+
+      const value = (rule.attribute ? match.getAttribute(rule.attribute) || '' : match.textContent || '').trim();
+      if (value) return { value, element: match };
+    }
+    return { value: '' };
+  };
+
+  for (const selector of selectors.review) {
+    let elements: Element[];
+    try {
+      elements = Array.from(root.querySelectorAll(selector));
+    } catch (error) {
+      continue;
+    }
+
+    elements.forEach(element => {
+      const id = element.getAttribute('data-review-id') || '';
+      if (!id || seen.has(id)) return;
+      seen.add(id);
+
+      const text = readRules(element, selectors.text, true);
+      const languageElement = text.element ? text.element.closest('[lang]') : element.closest('[lang]');
+
+      reviews.push({
+        id,
+        author: readRules(element, selectors.author, true).value,
+        rating: readRules(element, selectors.rating, true).value,
+        date: readRules(element, selectors.date, true).value,
+        text: text.value,
+        language: (languageElement && languageElement.getAttribute('lang')) || '',
+        ownerResponseText: readRules(element, selectors.ownerResponseText, false).value,
+        ownerResponseDate: readRules(element, selectors.ownerResponseDate, false).value
+      });
+    });
+
+    if (reviews.length > 0) break;
+  }
+
+  return reviews;
+}
+
+// "5 stars", "Rated 4.0 out of 5", "4/5"
+export function parseReviewRating(raw: string): number | undefined {
+  const match = raw.match(/(\d+(?:[.,]\d+)?)/);
+  if (!match) return undefined;
+  const rating = parseFloat(match[1].replace(',', '.'));
+  return rating >= 1 && rating <= 5 ? rating : undefined;
+}
+
+const RELATIVE_UNITS: { pattern: RegExp; days: number }[] = [
+  { pattern: /year/, days: 365 },
+  { pattern: /month/, days: 30 },
+  { pattern: /week/, days: 7 },
+  { pattern: /day/, days: 1 },
+  { pattern: /hour|minute|second|just now/, days: 0 }
+];
+
+// Estimate when "3 months ago" or "a year ago" was, relative to the scrape time
+export function parseRelativeDate(raw: string, now: Date = new Date()): Date | undefined {
+  const text = raw.toLowerCase().replace(/^edited\s+/, '');
+  if (text.includes('yesterday')) return new Date(now.getTime() - 86400000);
+
+  const unit = RELATIVE_UNITS.find(candidate => candidate.pattern.test(text));
+  if (!unit) return undefined;
+
+  const amount = text.match(/(\d+)/);
+  const count = amount ? parseInt(amount[1]) : /\b(a|an|one)\b/.test(text) ? 1 : 0;
+  return new Date(now.getTime() - count * unit.days * 86400000);
+}
+
+// Node half: typed child records linked to their business
+export function toBusinessReviews(raw: RawReview[], businessId: string, scrapedAt: Date = new Date()): BusinessReview[] {
+  return raw.map(review => ({
+    id: review.id,
+    businessId,
+    // The aria-label fallback is "Photo of <author>" on some layouts
+    author: review.author.replace(/^Photo of\s+/i, '') || 'Anonymous',
+    rating: parseReviewRating(review.rating),
+    date: review.date || undefined,
+    publishedAt: review.date ? parseRelativeDate(review.date, scrapedAt) : undefined,
+    text: review.text || undefined,
+    language: review.language || undefined,
+    ownerResponse: review.ownerResponseText
+      ? { text: review.ownerResponseText, date: review.ownerResponseDate || undefined }
+      : undefined
+  }));
+}
+
+// Open the reviews panel, scroll it until `limit` reviews are loaded or it stops
+// growing, expand truncated texts and read them
+export async function extractReviews(
+  page: Page,
+  businessId: string,
+  limit: number,
+  selectors: ReviewSelectors = DEFAULT_REVIEW_SELECTORS
+): Promise<BusinessReview[]> {
+  const tab = await findFirst(page, selectors.tab);
+  if (!tab) {
+    console.log('💬 No reviews tab on this place page');
+    return [];
+  }
+  await tab.click();
+
+  try {
+    await page.waitForSelector(selectors.review.join(', '), { timeout: 8000 });
+  } catch (error) {
+    console.log('💬 Reviews panel opened without reviews');
+    return [];
+  }
+
+  const countReviews = () => page.$$eval(selectors.review.join(', '), elements =>
+    new Set(elements.map(element => element.getAttribute('data-review-id'))).size
+  );
+
+  let loaded = await countReviews();
+  let stalledScrolls = 0;
+  // A panel page holds ~10 reviews; the extra attempts absorb slow loads
+  const maxScrolls = Math.ceil(limit / 10) + 5;
+
+  for (let scroll = 0; scroll < maxScrolls && loaded < limit && stalledScrolls < 3; scroll++) {
+    await page.evaluate((containerSelectors: string[]) => {
+      for (const selector of containerSelectors) {
+        const container = document.querySelector(selector);
+        if (container) {
+          container.scrollTop = container.scrollHeight;
+          return;
+        }
+      }
+    }, selectors.scrollContainer);
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    const count = await countReviews();
+    stalledScrolls = count > loaded ? 0 : stalledScrolls + 1;
+    loaded = count;
+  }
+
+  await page.$$eval(selectors.expand.join(', '), buttons => {
+    buttons.forEach(button => (button as HTMLElement).click());
+  }).catch(() => {});
+
+  const raw = await page.evaluate(readReviews, selectors);
+  return toBusinessReviews(raw.slice(0, limit), businessId);
+}
+
+async function findFirst(page: Page, selectors: string[]) {
+  for (const selector of selectors) {
+    const element = await page.$(selector).catch(() => null);
+    if (element) return element;
+  }
+  return null;
+}
@@ -0,0 +1,136 @@
+import { GoogleMapsScraper } from '@/lib/scraper';
+import { BusinessData, SearchParams } from '@/types';
+import {
+  applyScrapingJobAction,
+  isScrapingJobActive,
+  registerScrapingJob,
+  removeScrapingJob,
+  subscribeToScrapingJob,
+  updateScrapingJobStatus
+} from '@/lib/scraper-manager';
+
+interface ScrapeStreamOptions {
+  params: SearchParams;
+  warnings?: string[];
+  // Reuse an existing job ID when resuming a persisted job
+  jobId?: string;
+  run: (scraper: GoogleMapsScraper) => Promise<BusinessData[]>;
+}
+
+// Run a scraping job and report it to the client as Server-Sent Events
+export function createScrapeStreamResponse(request: Request, options: ScrapeStreamOptions): Response {
+  const { params, warnings, jobId, run } = options;
+  const encoder = new TextEncoder();
+  let abortJob: (() => Promise<void>) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let streamClosed = false;
+
+      const send = (payload: object) => {
+        if (streamClosed) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        } catch (enqueueError) {
+          // Client went away between the check and the enqueue
+          streamClosed = true;
+        }
+      };
+
+      const closeStream = () => {
+        if (streamClosed) return;
+        streamClosed = true;
+        try {
+          controller.close();
+        } catch (closeError) {
+          // Stream was already cancelled by the client
+        }
+      };
+
+      const scraper = new GoogleMapsScraper((progress) => {
+        // Send progress update via Server-Sent Events
+        send({
+          type: 'progress',
+          ...progress
+        });
+      });
+
+      // Register with the manager so /api/scrape/control can reach this job
+      const job = registerScrapingJob(scraper, params, jobId);
+      const unsubscribe = subscribeToScrapingJob(job.id, (event) => send(event));
+      send({ type: 'job', jobId: job.id });
+
+      let aborted = false;
+
+      // Client disconnected or aborted: stop the job and release the browser.
+      // The scraper stays cancelled, so a run that hasn't started yet won't
+      abortJob = async () => {
+        if (aborted) return;
+        aborted = true;
+        console.log(`🔌 Client disconnected, cancelling job ${job.id}`);
+        streamClosed = true;
+        unsubscribe();
+        if (isScrapingJobActive(job)) {
+          applyScrapingJobAction(job, 'cancel');
+        }
+        await scraper.close();
+      };
+      request.signal.addEventListener('abort', () => {
+        abortJob?.().catch(error => console.error('❌ Error aborting job:', error));
+      });
+
+      // Start scraping asynchronously
+      (async () => {
+        try {
+          await scraper.initialize();
+          // Aborted while the browser was starting; the finally block closes it
+          if (aborted || scraper.getState() === 'cancelled') {
+            updateScrapingJobStatus(job.id, 'cancelled');
+            return;
+          }
+          const businesses = await run(scraper);
+          updateScrapingJobStatus(job.id, scraper.getState());
+
+          // Send final result
+          send({
+            type: 'complete',
+            success: true,
+            jobId: job.id,
+            businesses,
+            count: businesses.length,
+            searchParams: params,
+            summary: scraper.getSearchSummary(),
+            warnings: warnings && warnings.length > 0 ? warnings : undefined
+          });
+          closeStream();
+
+        } catch (error: any) {
+          updateScrapingJobStatus(job.id, isScrapingJobActive(job) ? 'error' : job.status);
+          // Send error via SSE
+          send({
+            type: 'error',
+            error: 'Scraping Failed',
+            message: error.message || 'Unknown scraping error'
+          });
+          closeStream();
+        } finally {
+          unsubscribe();
+          // Always close: an abort during initialize() ran close() before the browser existed
+          await scraper.close();
+          removeScrapingJob(job.id);
+        }
+      })();
+    },
+    cancel() {
+      return abortJob?.();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -1,14 +1,174 @@
-// Global scraper instance store (in production, use Redis or database)
-let globalScraperInstance: any = null;
+import { GoogleMapsScraper, ScrapingState } from '@/lib/scraper';
+import { SearchParams } from '@/types';
+import { getJobStore, JobSummary } from '@/lib/job-store';
 
-export function setGlobalScraperInstance(instance: any) {
-  globalScraperInstance = instance;
+export type ScrapingJobStatus = ScrapingState | 'error';
+
+export type ScrapingJobAction = 'pause' | 'resume' | 'cancel';
+
+export interface ScrapingJobEvent {
+  type: 'paused' | 'resumed' | 'cancelled';
+  jobId: string;
+  state: ScrapingState;
+  scraped: number;
+  total: number;
+}
+
+export type ScrapingJobListener = (event: ScrapingJobEvent) => void;
+
+export interface ScrapingJob {
+  id: string;
+  scraper: GoogleMapsScraper;
+  params: SearchParams;
+  status: ScrapingJobStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+  listeners: Set<ScrapingJobListener>;
+}
+
+export interface ScrapingJobSummary {
+  id: string;
+  params: SearchParams;
+  status: ScrapingJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  state: ScrapingState;
+  progress: ReturnType<GoogleMapsScraper['getProgress']>;
+}
+
+// Job registry keyed by job ID (in production, use Redis or database)
+const scrapingJobs = new Map<string, ScrapingJob>();
+
+const ACTIVE_STATUSES: ScrapingJobStatus[] = ['running', 'paused'];
+
+function generateJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Pass an existing jobId to re-register a job being resumed from the job store
+export function registerScrapingJob(scraper: GoogleMapsScraper, params: SearchParams, jobId?: string): ScrapingJob {
+  const now = new Date();
+  const job: ScrapingJob = {
+    id: jobId || generateJobId(),
+    scraper,
+    params,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    listeners: new Set()
+  };
+
+  scrapingJobs.set(job.id, job);
+
+  const store = getJobStore();
+  scraper.enableCheckpointing(store, job.id);
+  const persisted = jobId ? store.updateStatus(job.id, 'running') : store.createJob(job.id, params);
+  persisted.catch(error => console.error(`⚠️ Failed to persist job ${job.id}:`, error));
+
+  return job;
+}
+
+export function getScrapingJob(jobId: string): ScrapingJob | undefined {
+  return scrapingJobs.get(jobId);
 }
 
-export function getGlobalScraperInstance() {
-  return globalScraperInstance;
+export function updateScrapingJobStatus(jobId: string, status: ScrapingJobStatus): ScrapingJob | undefined {
+  const job = scrapingJobs.get(jobId);
+  if (!job) return undefined;
+
+  job.status = status;
+  job.updatedAt = new Date();
+  if (!ACTIVE_STATUSES.includes(status)) {
+    job.finishedAt = job.updatedAt;
+  }
+  getJobStore().updateStatus(jobId, status)
+    .catch(error => console.error(`⚠️ Failed to persist status for job ${jobId}:`, error));
+  return job;
+}
+
+export function removeScrapingJob(jobId: string): void {
+  scrapingJobs.get(jobId)?.listeners.clear();
+  scrapingJobs.delete(jobId);
+}
+
+// Subscribe to control actions applied to a job; returns an unsubscribe function
+export function subscribeToScrapingJob(jobId: string, listener: ScrapingJobListener): () => void {
+  const job = scrapingJobs.get(jobId);
+  if (!job) return () => {};
+
+  job.listeners.add(listener);
+  return () => {
+    job.listeners.delete(listener);
+  };
+}
+
+export function applyScrapingJobAction(job: ScrapingJob, action: ScrapingJobAction): void {
+  let eventType: ScrapingJobEvent['type'];
+
+  switch (action) {
+    case 'pause':
+      job.scraper.pause();
+      updateScrapingJobStatus(job.id, 'paused');
+      eventType = 'paused';
+      break;
+    case 'resume':
+      job.scraper.resume();
+      updateScrapingJobStatus(job.id, 'running');
+      eventType = 'resumed';
+      break;
+    case 'cancel':
+      job.scraper.cancel();
+      updateScrapingJobStatus(job.id, 'cancelled');
+      eventType = 'cancelled';
+      break;
+  }
+
+  const { scraped, total } = job.scraper.getProgress();
+  const event: ScrapingJobEvent = {
+    type: eventType,
+    jobId: job.id,
+    state: job.scraper.getState(),
+    scraped,
+    total
+  };
+
+  job.listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Error notifying listener for job ${job.id}:`, error);
+    }
+  });
 }
 
-export function clearGlobalScraperInstance() {
-  globalScraperInstance = null;
-} 
\ No newline at end of file
+export function isScrapingJobActive(job: ScrapingJob): boolean {
+  return ACTIVE_STATUSES.includes(job.status);
+}
+
+export function listActiveScrapingJobs(): ScrapingJob[] {
+  return Array.from(scrapingJobs.values()).filter(isScrapingJobActive);
+}
+
+// Jobs the store still marks as running or paused but which no live scraper owns,
+// e.g. because the server restarted mid-run
+export async function listResumableJobs(): Promise<JobSummary[]> {
+  const records = await getJobStore().listJobs();
+  return records.filter(record =>
+    ACTIVE_STATUSES.includes(record.status) && !scrapingJobs.has(record.id)
+  );
+}
+
+export function summarizeScrapingJob(job: ScrapingJob): ScrapingJobSummary {
+  return {
+    id: job.id,
+    params: job.params,
+    status: job.status,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+    finishedAt: job.finishedAt?.toISOString(),
+    state: job.scraper.getState(),
+    progress: job.scraper.getProgress()
+  };
+}
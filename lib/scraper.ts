@@ -1,12 +1,65 @@
-import puppeteer, { Browser, Page } from 'puppeteer-core';
-// @ts-ignore - @sparticuz/chromium doesn't have TypeScript definitions
-import chromium from '@sparticuz/chromium';
-import { BusinessData, SearchParams, ScrapingProgress } from '@/types';
+import { Browser, Page } from 'puppeteer-core';
+import { BusinessData, CategoryProgress, PhoneDetails, SearchParams, ScrapingProgress, SearchSummary, SweepCellResult, SweepSummary } from '@/types';
+import { JobRecord, JobStore } from '@/lib/job-store';
+import { BrowserProvider, getBrowserProvider, getMapsOrigin } from '@/lib/browser-provider';
+import { ExtractionResult, extractPlaceDetails, extractResultLinks } from '@/lib/extractor';
+import { FixtureKind, saveFixture } from '@/lib/extraction-fixtures';
+import { DEFAULT_SELECTOR_PROFILE, ExtractedField } from '@/lib/selector-profile';
+import { CacheHit, CachedPlace, extractPlaceId, getPlaceCache, getSearchCache, normalizePlaceKey, normalizeSearchKey } from '@/lib/cache';
+import { buildSweepGrid, cellIntersectsCircle, haversineDistance, subdivideSweepCell, zoomForRadius } from '@/utils/geo';
+import { parseOpeningHours } from '@/utils/hours';
+import { assessQuality } from '@/lib/quality';
+import { getDefaultPhoneCountry, inferSearchCountry, normalizePhone } from '@/lib/phone';
+import { inferCountryFromText } from '@/utils/countries';
+import { parseAddress } from '@/utils/address';
+import { stableBusinessId } from '@/lib/dedupe';
+import { WebsiteCrawler, createWebsiteCrawlerFromEnv } from '@/lib/enrichment';
+import { extractReviews } from '@/lib/reviews';
+import { extractPlaceInsights } from '@/lib/place-insights';
 
 export type ScrapingState = 'running' | 'paused' | 'cancelled' | 'completed';
 
+interface DetailPageSettings {
+  retries: number;
+  waitUntil: 'networkidle2' | 'domcontentloaded';
+  navigationTimeout: number;
+  settleDelay: number;
+  contentTimeout: number;
+  retryDelay: number;
+}
+
+const SEQUENTIAL_DETAIL_SETTINGS: DetailPageSettings = {
+  retries: 3,
+  waitUntil: 'networkidle2',
+  navigationTimeout: 45000,
+  settleDelay: 3000,
+  contentTimeout: 10000,
+  retryDelay: 2000
+};
+
+// Parallel workers trade some reliability for throughput
+const PARALLEL_DETAIL_SETTINGS: DetailPageSettings = {
+  retries: 2,
+  waitUntil: 'domcontentloaded',
+  navigationTimeout: 30000,
+  settleDelay: 1500,
+  contentTimeout: 8000,
+  retryDelay: 1000
+};
+
+export interface ScraperOptions {
+  // Defaults to getBrowserProvider(), which is configured from the environment
+  browserProvider?: BrowserProvider;
+  // Defaults to MAPS_ORIGIN, e.g. http://localhost:4010 for the mock Maps server
+  mapsOrigin?: string;
+  // Defaults to a crawler configured from the ENRICH_* environment variables
+  websiteCrawler?: WebsiteCrawler;
+}
+
 export class GoogleMapsScraper {
   private browser: Browser | null = null;
+  private browserProvider: BrowserProvider;
+  private mapsOrigin: string;
   private page: Page | null = null;
   private progressCallback?: (progress: ScrapingProgress) => void;
   private scrapingState: ScrapingState = 'running' as ScrapingState;
@@ -16,9 +69,47 @@ export class GoogleMapsScraper {
   private businessLinks: string[] = [];
   private lastHealthCheck: number = Date.now();
   private healthCheckInterval: number = 60000; // 1 minute
-
-  constructor(progressCallback?: (progress: ScrapingProgress) => void) {
+  private jobStore: JobStore | null = null;
+  private jobId: string | null = null;
+  private cacheHits: number = 0;
+  private cacheMisses: number = 0;
+  private searchCacheAgeMs?: number;
+  private discardedOutOfRadius: number = 0;
+  private sweepCells?: { done: number; remaining: number };
+  private sweepSummary?: SweepSummary;
+  private sessionCategories: string[] = [];
+  // Category queries that returned each place, keyed by normalizePlaceKey()
+  private linkCategories = new Map<string, string[]>();
+  // Country inferred from the search, for phones and addresses that don't name one
+  private searchCountry?: string;
+  private enrichWebsites: boolean = false;
+  // Reviews to collect per place; 0 leaves the reviews panel closed
+  private reviewLimit: number = 0;
+  private websiteCrawler?: WebsiteCrawler;
+  // Link each business was checkpointed under, by business ID, so later passes can update it
+  private checkpointLinks = new Map<string, string>();
+
+  constructor(progressCallback?: (progress: ScrapingProgress) => void, options: ScraperOptions = {}) {
     this.progressCallback = progressCallback;
+    this.browserProvider = options.browserProvider || getBrowserProvider();
+    this.websiteCrawler = options.websiteCrawler;
+    this.mapsOrigin = (options.mapsOrigin || getMapsOrigin()).replace(/\/+$/, '');
+  }
+
+  // Persist discovered links and scraped businesses so the job can be resumed
+  enableCheckpointing(store: JobStore, jobId: string): void {
+    this.jobStore = store;
+    this.jobId = jobId;
+  }
+
+  private async checkpoint(write: (store: JobStore, jobId: string) => Promise<void>): Promise<void> {
+    if (!this.jobStore || !this.jobId) return;
+
+    try {
+      await write(this.jobStore, this.jobId);
+    } catch (error) {
+      console.error('⚠️ Failed to write job checkpoint:', error instanceof Error ? error.message : 'Unknown error');
+    }
   }
 
   // Control methods for pause/resume/cancel
@@ -65,6 +156,13 @@ export class GoogleMapsScraper {
     return this.scrapingState;
   }
 
+  getSearchSummary(): SearchSummary {
+    return {
+      discardedOutOfRadius: this.discardedOutOfRadius,
+      sweep: this.sweepSummary
+    };
+  }
+
   getProgress(): { scraped: number; total: number; businesses: BusinessData[] } {
     return {
       scraped: this.scrapedBusinesses.length,
@@ -144,61 +242,22 @@ export class GoogleMapsScraper {
 
   async initialize(): Promise<void> {
     try {
-      // Close any existing browser first
+      // Release any existing browser first
       if (this.browser) {
-        await this.browser.close().catch(() => {});
+        await this.browserProvider.release(this.browser).catch(() => {});
         this.browser = null;
         this.page = null;
       }
 
-      const isProduction = process.env.VERCEL_ENV === 'production' || process.env.NODE_ENV === 'production';
-      
-      console.log(`🚀 Initializing browser for ${isProduction ? 'production' : 'development'} environment`);
+      console.log(`🚀 Initializing browser via ${this.browserProvider.name} provider`);
 
-      if (isProduction) {
-        // Vercel production configuration using @sparticuz/chromium
-        console.log('🔧 Setting up Chromium for Vercel...');
-        
-        const executablePath = await chromium.executablePath();
-        
-        this.browser = await puppeteer.launch({
-          args: chromium.args,
-          defaultViewport: chromium.defaultViewport,
-          executablePath,
-          headless: chromium.headless,
-          ignoreHTTPSErrors: true,
-        });
-        
-        console.log('✅ Chromium configured for production');
-      } else {
-        // Development configuration - use puppeteer (not puppeteer-core)
-        const puppeteerDev = require('puppeteer');
-        this.browser = await puppeteerDev.launch({
-          headless: 'new',
-          args: [
-            '--no-sandbox',
-            '--disable-setuid-sandbox',
-            '--disable-dev-shm-usage',
-            '--window-size=1920,1080'
-          ]
-        });
-        console.log('✅ Using local Chrome for development');
-      }
-
-      // Create new page
+      this.browser = await this.browserProvider.acquire();
       if (!this.browser) {
         throw new Error('Browser failed to initialize');
       }
+      console.log(`✅ Browser ready (${this.browserProvider.name})`);
 
-      this.page = await this.browser.newPage();
-
-      // Configure page
-      await this.page.setViewport({ width: 1920, height: 1080 });
-      await this.page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36');
-
-      // Set timeouts
-      await this.page.setDefaultNavigationTimeout(30000);
-      await this.page.setDefaultTimeout(30000);
+      this.page = await this.createPage();
 
       // Test page readiness
       await this.page.evaluate(() => document.readyState);
@@ -216,10 +275,14 @@ export class GoogleMapsScraper {
       throw new Error('Scraper not initialized');
     }
 
-    // Reset state for new scraping session
-    this.scrapingState = 'running';
-    this.scrapedBusinesses = [];
-    this.currentBusinessIndex = 0;
+    if (params.areaSweep) {
+      if (params.coordinates) {
+        return this.sweepArea(params);
+      }
+      console.log('⚠️ Area sweep requires search coordinates, falling back to a single search');
+    }
+
+    this.resetSession(params);
 
     this.updateProgress({
       status: 'searching',
@@ -229,352 +292,718 @@ export class GoogleMapsScraper {
       scraped: 0,
       errors: []
     });
-    
-    // Convert categories array to search query  
-    const categoryQuery = params.categories && params.categories.length > 0 
-      ? params.categories.join(' OR ') 
-      : 'business';
-    
-    const searchQuery = `${categoryQuery} near ${params.location}`;
-    const searchUrl = `https://www.google.com/maps/search/${encodeURIComponent(searchQuery)}`;
 
     try {
-      console.log('🔍 Navigating to:', searchUrl);
-      await this.page.goto(searchUrl, { waitUntil: 'networkidle2', timeout: 30000 });
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      let { links: businessLinks } = await this.discoverLinks(params);
 
-      // Check if cancelled during navigation
+      // Check if cancelled during search
       if (this.isCancelled()) {
         return this.scrapedBusinesses;
       }
 
-      // Wait for results to load - try multiple selectors
-      const resultSelectors = [
-        '[role="main"]',
-        '.m6QErb',
-        '[data-value="Directions"]',
-        'a[href*="maps/place"]',
-        '.hfpxzc'
-      ];
+      if (this.searchCacheAgeMs !== undefined) {
+        this.updateProgress({
+          status: 'searching',
+          currentStep: `Using cached search results (${businessLinks.length} businesses)`,
+          progress: 5,
+          totalFound: businessLinks.length,
+          scraped: 0,
+          errors: []
+        });
+      }
+
+      // Google ranks by relevance, not distance; drop places outside the requested circle
+      if (params.coordinates) {
+        businessLinks = this.filterLinksByRadius(businessLinks, params.coordinates, params.radius);
+      }
 
-      let resultsFound = false;
-      for (const selector of resultSelectors) {
+      return await this.scrapeDiscoveredLinks(params, businessLinks);
+    } catch (error) {
+      console.error('❌ Error during scraping:', error);
+      throw error;
+    }
+  }
+
+  // Google Maps stops listing after ~120 results per query, so cover the radius
+  // circle with a grid of smaller searches and split any cell that comes back full
+  async sweepArea(params: SearchParams): Promise<BusinessData[]> {
+    if (!this.page) {
+      throw new Error('Scraper not initialized');
+    }
+    if (!params.coordinates) {
+      throw new Error('Area sweep requires search coordinates');
+    }
+
+    this.resetSession(params);
+
+    const center = params.coordinates;
+    const gridSize = parseInt(process.env.SWEEP_GRID_SIZE || '3');
+    const saturationThreshold = parseInt(process.env.SWEEP_SATURATION_THRESHOLD || '100');
+    const maxDepth = parseInt(process.env.SWEEP_MAX_DEPTH || '2');
+    const minCellSize = parseInt(process.env.SWEEP_MIN_CELL_SIZE || '250');
+    const targetResults = this.getMaxResultsLimit(params);
+
+    const pendingCells = buildSweepGrid(center, params.radius, gridSize);
+    // In-radius candidates only, so the target check counts what will be scraped
+    const uniqueLinks = new Map<string, string>();
+    const outOfRadius = new Set<string>();
+    const saturatedCells: SweepCellResult[] = [];
+    let cellsDone = 0;
+
+    console.log(`🗺️ Starting area sweep with ${pendingCells.length} cells (${gridSize}x${gridSize} grid)`);
+
+    try {
+      while (pendingCells.length > 0) {
         if (this.isCancelled()) {
           return this.scrapedBusinesses;
         }
-        
-        try {
-          await this.page.waitForSelector(selector, { timeout: 5000 });
-          resultsFound = true;
-          console.log(`✅ Found results with selector: ${selector}`);
+        if (this.isPaused()) {
+          await this.waitForResume();
+          if (this.isCancelled()) return this.scrapedBusinesses;
+        }
+
+        // Enough candidates already; remaining cells would only add duplicates or overflow
+        if (uniqueLinks.size >= targetResults) {
+          console.log(`🎯 Collected ${uniqueLinks.size} candidates, skipping ${pendingCells.length} remaining cells`);
           break;
-        } catch (e) {
-          console.log(`❌ Selector ${selector} not found, trying next...`);
         }
-      }
 
-      if (!resultsFound) {
-        throw new Error('No search results found - page may have changed structure');
-      }
+        const cell = pendingCells.shift()!;
+        this.sweepCells = { done: cellsDone, remaining: pendingCells.length + 1 };
+        this.updateProgress({
+          status: 'searching',
+          currentStep: `Sweeping cell ${cellsDone + 1}/${cellsDone + pendingCells.length + 1} (${uniqueLinks.size} unique businesses so far)`,
+          progress: Math.round((cellsDone / (cellsDone + pendingCells.length + 1)) * 10),
+          totalFound: uniqueLinks.size,
+          scraped: 0,
+          errors: []
+        });
 
-      // Scroll to load more results and continuously find businesses
-      await this.scrollAndLoadAllResults();
+        const { links: cellLinks, largestQuery } = await this.discoverLinks({
+          ...params,
+          coordinates: cell.center,
+          radius: Math.round(cell.radius)
+        });
+        if (this.isCancelled()) {
+          return this.scrapedBusinesses;
+        }
 
-      // Check if cancelled during scrolling
-      if (this.isCancelled()) {
-        return this.scrapedBusinesses;
+        cellLinks.forEach(link => {
+          const key = normalizePlaceKey(link);
+          if (uniqueLinks.has(key) || outOfRadius.has(key)) return;
+          if (this.isWithinRadius(link, center, params.radius)) {
+            uniqueLinks.set(key, link);
+          } else {
+            outOfRadius.add(key);
+          }
+        });
+        cellsDone++;
+
+        // A full result list means Google truncated it; look closer with smaller
+        // cells. The cap applies per query, not to the categories merged together
+        if (largestQuery >= saturationThreshold) {
+          const canSubdivide = cell.depth < maxDepth && cell.size / 2 >= minCellSize;
+          const subCells = canSubdivide
+            ? subdivideSweepCell(cell).filter(subCell => cellIntersectsCircle(subCell, center, params.radius))
+            : [];
+          pendingCells.push(...subCells);
+          saturatedCells.push({ ...cell, found: largestQuery, subdivided: subCells.length > 0 });
+          console.log(`🧩 Cell ${cell.id} saturated with ${largestQuery} results${subCells.length > 0 ? `, split into ${subCells.length} sub-cells` : ', cannot split further'}`);
+        }
       }
 
-      // Get all business links after scrolling - OPTIMIZED EXTRACTION
-      let businessLinks: string[] = [];
-      
-      // Method 1: Look for directions links (most reliable) - OPTIMIZED
-      try {
-        businessLinks = await this.page.$$eval(
-          'a[data-value="Directions"]',
-          (links) => links.map(link => link.getAttribute('href')).filter(Boolean) as string[]
-        );
-        console.log(`📍 Method 1 found ${businessLinks.length} businesses`);
-      } catch (e) {
-        console.log('❌ Method 1 failed, trying method 2...');
+      this.sweepCells = { done: cellsDone, remaining: pendingCells.length };
+      this.sweepSummary = { cellsSearched: cellsDone, cellsSkipped: pendingCells.length, saturatedCells };
+
+      console.log(`🗺️ Area sweep finished: ${cellsDone} cells, ${uniqueLinks.size} unique businesses, ${saturatedCells.length} saturated cells`);
+
+      outOfRadius.forEach(key => this.linkCategories.delete(key));
+      this.discardedOutOfRadius = outOfRadius.size;
+      if (outOfRadius.size > 0) {
+        console.log(`📏 Discarded ${outOfRadius.size} businesses outside the ${params.radius}m radius`);
       }
 
-      // Method 2: Look for place links (comprehensive) - OPTIMIZED
-      try {
-        const method2Links = await this.page.$$eval(
-          'a[href*="/maps/place/"]',
-          (links) => links.map(link => link.getAttribute('href')).filter(Boolean) as string[]
-        );
-        
-        // Combine and deduplicate
-        const allLinks = Array.from(new Set([...businessLinks, ...method2Links]));
-        businessLinks = allLinks;
-        console.log(`📍 Method 2 found ${method2Links.length} additional businesses (total: ${businessLinks.length})`);
-      } catch (e) {
-        console.log('❌ Method 2 failed, trying method 3...');
+      return await this.scrapeDiscoveredLinks(params, Array.from(uniqueLinks.values()));
+    } catch (error) {
+      console.error('❌ Error during area sweep:', error);
+      throw error;
+    }
+  }
+
+  private resetSession(params: SearchParams): void {
+    // Reset state for new scraping session. A cancel that arrived before the
+    // session started still stands
+    if (this.scrapingState !== 'cancelled') {
+      this.scrapingState = 'running';
+    }
+    this.scrapedBusinesses = [];
+    this.currentBusinessIndex = 0;
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
+    this.searchCacheAgeMs = undefined;
+    this.discardedOutOfRadius = 0;
+    this.sweepCells = undefined;
+    this.sweepSummary = undefined;
+    this.sessionCategories = params.categories;
+    this.linkCategories = new Map();
+    this.searchCountry = inferSearchCountry(params);
+    this.enrichWebsites = !!params.enrichWebsites;
+    this.reviewLimit = this.getReviewLimit(params);
+    this.checkpointLinks = new Map();
+  }
+
+  // Candidate place links for a search. Each selected category runs as its own
+  // query, since Maps answers "a OR b" mostly with results for the first term.
+  // largestQuery is the most results any one query returned
+  private async discoverLinks(params: SearchParams): Promise<{ links: string[]; largestQuery: number }> {
+    const categories = params.categories.length > 0 ? params.categories : [''];
+    const links = new Map<string, string>();
+    let largestQuery = 0;
+
+    for (let i = 0; i < categories.length; i++) {
+      if (this.isCancelled()) break;
+
+      const category = categories[i];
+      if (categories.length > 1) {
+        console.log(`🏷️ Searching category "${category}" (${i + 1}/${categories.length})`);
+        // Area sweep reports its own per-cell progress
+        if (!this.sweepCells) {
+          this.updateProgress({
+            status: 'searching',
+            currentStep: `Searching "${category}" (${i + 1}/${categories.length})`,
+            progress: Math.round((i / categories.length) * 10),
+            totalFound: links.size,
+            scraped: 0,
+            errors: []
+          });
+        }
       }
 
-      // Method 3: Look for clickable business entries - OPTIMIZED
-      try {
-        const method3Links = await this.page.$$eval(
-          '.hfpxzc[href*="/maps/place/"], [role="link"][href*="/maps/place/"]',
-          (elements) => {
-            return elements.map(el => {
-              const href = el.getAttribute('href');
-              if (href && href.includes('/maps/place/')) {
-                return href;
-              }
-              return null;
-            }).filter(Boolean) as string[];
+      const categoryLinks = await this.discoverCategoryLinks({
+        ...params,
+        categories: category ? [category] : []
+      });
+      largestQuery = Math.max(largestQuery, categoryLinks.length);
+
+      categoryLinks.forEach(link => {
+        const key = normalizePlaceKey(link);
+        if (!links.has(key)) {
+          links.set(key, link);
+        }
+        if (category) {
+          const matched = this.linkCategories.get(key) || [];
+          if (!matched.includes(category)) {
+            this.linkCategories.set(key, [...matched, category]);
           }
-        );
-        
-        // Combine and deduplicate
-        const allLinks = Array.from(new Set([...businessLinks, ...method3Links]));
-        businessLinks = allLinks;
-        console.log(`📍 Method 3 found ${method3Links.length} additional businesses (total: ${businessLinks.length})`);
-      } catch (e) {
-        console.log('❌ Method 3 failed');
-      }
+        }
+      });
+    }
 
-      // Final deduplication and validation - OPTIMIZED
-      businessLinks = Array.from(new Set(businessLinks)).filter(link => 
-        link && link.includes('/maps/place/') && link.length > 10
-      );
+    return { links: Array.from(links.values()), largestQuery };
+  }
+
+  // Candidate place links for a single query, from the search cache or a live Maps search
+  private async discoverCategoryLinks(params: SearchParams): Promise<string[]> {
+    const cachedSearch = params.forceRefresh ? null : await this.getCachedSearchLinks(params);
+
+    if (cachedSearch) {
+      // Report the oldest candidate list when several searches are combined
+      this.searchCacheAgeMs = Math.max(this.searchCacheAgeMs || 0, cachedSearch.ageMs);
+      console.log(`💾 Using cached search results: ${cachedSearch.value.length} businesses (${Math.round(cachedSearch.ageMs / 60000)} min old)`);
+      return cachedSearch.value;
+    }
+
+    const businessLinks = await this.searchBusinessLinks(this.buildSearchUrl(params));
+    if (!this.isCancelled() && businessLinks.length > 0) {
+      await this.cacheSearchLinks(params, businessLinks);
+    }
+    return businessLinks;
+  }
+
+  // Shared tail of every search mode: checkpoint the candidate list and extract details
+  private async scrapeDiscoveredLinks(params: SearchParams, businessLinks: string[]): Promise<BusinessData[]> {
+    if (!this.page) {
+      throw new Error('Scraper not initialized');
+    }
 
-      console.log(`🎯 Final business count: ${businessLinks.length} unique businesses found`);
+    if (businessLinks.length === 0) {
+      console.log('❌ No business links found. This might indicate:');
+      console.log('   - The search returned no results');
+      console.log('   - The page structure has changed');
+      console.log('   - The page failed to load properly');
+      console.log('   - Rate limiting or blocking occurred');
       
-      if (businessLinks.length === 0) {
-        console.log('❌ No business links found. This might indicate:');
-        console.log('   - The search returned no results');
-        console.log('   - The page structure has changed');
-        console.log('   - The page failed to load properly');
-        console.log('   - Rate limiting or blocking occurred');
-        
-        // Return empty array instead of throwing error
-        this.updateProgress({
-          status: 'completed',
-          currentStep: 'No businesses found',
-          progress: 100,
-          totalFound: 0,
-          scraped: 0,
-          errors: ['No business links found in search results']
-        });
-        
-        return [];
-      }
+      // Return empty array instead of throwing error
+      this.updateProgress({
+        status: 'completed',
+        currentStep: 'No businesses found',
+        progress: 100,
+        totalFound: 0,
+        scraped: 0,
+        errors: ['No business links found in search results']
+      });
+      
+      return [];
+    }
 
-      this.businessLinks = businessLinks;
-      this.totalBusinessesToScrape = Math.min(businessLinks.length, params.maxResults);
+    this.businessLinks = businessLinks;
+    this.totalBusinessesToScrape = Math.min(businessLinks.length, params.maxResults);
 
+    this.updateProgress({
+      status: 'scraping',
+      currentStep: 'Extracting business information...',
+      progress: 10,
+      totalFound: businessLinks.length,
+      scraped: 0,
+      errors: []
+    });
+
+    // Check if page is still valid before proceeding
+    try {
+      await this.page.evaluate(() => document.readyState);
+      console.log('✅ Page is still valid, proceeding with business scraping');
+    } catch (e) {
+      console.log('❌ Page context is invalid, cannot proceed with scraping');
+      console.log('Error details:', e instanceof Error ? e.message : 'Unknown error');
+      
       this.updateProgress({
-        status: 'scraping',
-        currentStep: 'Extracting business information...',
-        progress: 10,
+        status: 'error',
+        currentStep: 'Page context invalid',
+        progress: 0,
         totalFound: businessLinks.length,
         scraped: 0,
-        errors: []
+        errors: ['Page context became invalid after scrolling. This may be due to page refresh or navigation.']
       });
+      
+      return [];
+    }
+
+    const linksToProcess = businessLinks.slice(0, this.getMaxResultsLimit(params));
+    
+    console.log(`🎯 Starting to scrape ${linksToProcess.length} businesses (found ${businessLinks.length} total, user limit: ${params.maxResults || 500})`);
+    
+    await this.checkpoint((store, jobId) => store.saveLinks(jobId, businessLinks, this.getLinkCategories(businessLinks)));
+    await this.scrapeLinks(linksToProcess, linksToProcess.length, 0);
+
+    return this.scrapedBusinesses;
+  }
 
-      // Check if page is still valid before proceeding
+  // Anchor the search at the requested coordinates, zoomed so the viewport covers the radius
+  private buildSearchUrl(params: SearchParams): string {
+    // discoverLinks() issues one query per category
+    const categoryQuery = params.categories[0] || 'business';
+
+    if (params.coordinates) {
+      const { lat, lng } = params.coordinates;
+      const zoom = zoomForRadius(params.coordinates, params.radius);
+      return `${this.mapsOrigin}/maps/search/${encodeURIComponent(categoryQuery)}/@${lat},${lng},${zoom}z`;
+    }
+
+    const searchQuery = `${categoryQuery} near ${params.location}`;
+    return `${this.mapsOrigin}/maps/search/${encodeURIComponent(searchQuery)}`;
+  }
+
+  // Keep links whose coordinates fall within `radius` meters of `center`; links without coordinates are kept
+  // Links without coordinates are kept, since their distance is unknown
+  private isWithinRadius(link: string, center: { lat: number; lng: number }, radius: number): boolean {
+    const coordinates = this.extractCoordinatesFromUrl(link);
+    return !coordinates || haversineDistance(center, coordinates) <= radius;
+  }
+
+  private filterLinksByRadius(links: string[], center: { lat: number; lng: number }, radius: number): string[] {
+    const inRadius = links.filter(link => {
+      if (this.isWithinRadius(link, center, radius)) return true;
+      this.linkCategories.delete(normalizePlaceKey(link));
+      return false;
+    });
+
+    this.discardedOutOfRadius = links.length - inRadius.length;
+    if (this.discardedOutOfRadius > 0) {
+      console.log(`📏 Discarded ${this.discardedOutOfRadius} businesses outside the ${radius}m radius`);
+    }
+    return inRadius;
+  }
+
+  // Search phase: open a Maps results page, scroll it and collect place links
+  private async searchBusinessLinks(searchUrl: string): Promise<string[]> {
+    if (!this.page) {
+      throw new Error('Scraper not initialized');
+    }
+
+    console.log('🔍 Navigating to:', searchUrl);
+    await this.page.goto(searchUrl, { waitUntil: 'networkidle2', timeout: 30000 });
+    await new Promise(resolve => setTimeout(resolve, 3000));
+
+    // Check if cancelled during navigation
+    if (this.isCancelled()) {
+      return [];
+    }
+
+    // Wait for results to load - try multiple selectors
+    const resultSelectors = [
+      '[role="main"]',
+      '.m6QErb',
+      '[data-value="Directions"]',
+      'a[href*="maps/place"]',
+      '.hfpxzc'
+    ];
+
+    let resultsFound = false;
+    for (const selector of resultSelectors) {
+      if (this.isCancelled()) {
+        return [];
+      }
+      
       try {
-        await this.page.evaluate(() => document.readyState);
-        console.log('✅ Page is still valid, proceeding with business scraping');
+        await this.page.waitForSelector(selector, { timeout: 5000 });
+        resultsFound = true;
+        console.log(`✅ Found results with selector: ${selector}`);
+        break;
       } catch (e) {
-        console.log('❌ Page context is invalid, cannot proceed with scraping');
-        console.log('Error details:', e instanceof Error ? e.message : 'Unknown error');
-        
-        this.updateProgress({
-          status: 'error',
-          currentStep: 'Page context invalid',
-          progress: 0,
-          totalFound: businessLinks.length,
-          scraped: 0,
-          errors: ['Page context became invalid after scrolling. This may be due to page refresh or navigation.']
-        });
-        
-        return [];
+        console.log(`❌ Selector ${selector} not found, trying next...`);
       }
+    }
 
-      // Respect user's maxResults parameter, but allow up to 500 by default
-      const userMaxResults = params.maxResults || 500;
-      const envMaxResults = parseInt(process.env.MAX_BUSINESSES_PER_SEARCH || '500');
-      const actualMaxResults = Math.min(userMaxResults, envMaxResults);
-      
-      const linksToProcess = businessLinks.slice(0, actualMaxResults);
-      
-      console.log(`🎯 Starting to scrape ${linksToProcess.length} businesses (found ${businessLinks.length} total, user limit: ${userMaxResults}, env limit: ${envMaxResults})`);
-      
-      // PARALLEL SCRAPING OPTIMIZATION
-      const maxConcurrentScrapers = parseInt(process.env.MAX_CONCURRENT_SCRAPERS || '3');
-      const batchSize = Math.min(maxConcurrentScrapers, 5); // Cap at 5 concurrent to avoid overwhelming Google
+    if (!resultsFound) {
+      throw new Error('No search results found - page may have changed structure');
+    }
+
+    // Scroll to load more results and continuously find businesses
+    await this.scrollAndLoadAllResults();
+
+    // Check if cancelled during scrolling
+    if (this.isCancelled()) {
+      return [];
+    }
+
+    const businessLinks = await extractResultLinks(this.page);
+    await this.captureFixture('results', searchUrl, this.page, businessLinks);
+
+    console.log(`🎯 Final business count: ${businessLinks.length} unique businesses found`);
+
+    return businessLinks;
+  }
+
+  // Extraction phase: scrape each place link in batches. `total` and `offset`
+  // account for businesses already scraped when resuming from a checkpoint
+  private async scrapeLinks(linksToProcess: string[], total: number, offset: number): Promise<void> {
+    // PARALLEL SCRAPING OPTIMIZATION
+    const maxConcurrentScrapers = parseInt(process.env.MAX_CONCURRENT_SCRAPERS || '3');
+    const batchSize = Math.min(maxConcurrentScrapers, 5); // Cap at 5 concurrent to avoid overwhelming Google
+    
+    console.log(`⚡ Using parallel scraping with ${batchSize} concurrent scrapers`);
+    
+    // Process businesses in batches for parallel scraping
+    for (let batchStart = 0; batchStart < linksToProcess.length; batchStart += batchSize) {
+      const batchEnd = Math.min(batchStart + batchSize, linksToProcess.length);
+      const currentBatch = linksToProcess.slice(batchStart, batchEnd);
       
-      console.log(`⚡ Using parallel scraping with ${batchSize} concurrent scrapers`);
+      console.log(`🔄 Processing batch ${Math.floor(batchStart/batchSize) + 1}/${Math.ceil(linksToProcess.length/batchSize)}: businesses ${batchStart + 1}-${batchEnd}`);
       
-      // Process businesses in batches for parallel scraping
-      for (let batchStart = 0; batchStart < linksToProcess.length; batchStart += batchSize) {
-        const batchEnd = Math.min(batchStart + batchSize, linksToProcess.length);
-        const currentBatch = linksToProcess.slice(batchStart, batchEnd);
-        
-        console.log(`🔄 Processing batch ${Math.floor(batchStart/batchSize) + 1}/${Math.ceil(linksToProcess.length/batchSize)}: businesses ${batchStart + 1}-${batchEnd}`);
-        
-        // Check if cancelled or paused
+      // Check if cancelled or paused
+      if (this.isCancelled()) {
+        console.log('❌ Scraping cancelled by user');
+        break;
+      }
+
+      if (this.isPaused()) {
+        await this.waitForResume();
         if (this.isCancelled()) {
-          console.log('❌ Scraping cancelled by user');
+          console.log('❌ Scraping cancelled while paused');
           break;
         }
+      }
 
-        if (this.isPaused()) {
-          await this.waitForResume();
-          if (this.isCancelled()) {
-            console.log('❌ Scraping cancelled while paused');
-            break;
-          }
-        }
+      // Perform health check at start of each batch
+      const healthOk = await this.ensureBrowserHealth();
+      if (!healthOk) {
+        console.log('❌ Browser health check failed, stopping scraping');
+        break;
+      }
 
-        // Perform health check at start of each batch
-        const healthOk = await this.ensureBrowserHealth();
-        if (!healthOk) {
-          console.log('❌ Browser health check failed, stopping scraping');
-          break;
+      // Create multiple pages for parallel scraping
+      const pages: Page[] = [];
+      try {
+        for (let i = 0; i < currentBatch.length; i++) {
+          if (this.browser && this.browser.connected) {
+            pages.push(await this.createPage());
+          }
         }
+      } catch (error) {
+        console.error('❌ Error creating parallel pages:', error);
+        // Fall back to sequential scraping
+        pages.length = 0;
+      }
 
-        // Create multiple pages for parallel scraping
-        const pages: Page[] = [];
-        try {
-          for (let i = 0; i < currentBatch.length; i++) {
-            if (this.browser && this.browser.connected) {
-              const newPage = await this.browser.newPage();
-              await newPage.setViewport({ width: 1920, height: 1080 });
-              await newPage.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36');
-              await newPage.setDefaultNavigationTimeout(30000);
-              await newPage.setDefaultTimeout(30000);
-              pages.push(newPage);
+      // Scrape businesses in parallel if we have multiple pages
+      if (pages.length > 1) {
+        const batchPromises = currentBatch.map(async (businessLink, index) => {
+          const pageIndex = index % pages.length;
+          const page = pages[pageIndex];
+          const globalIndex = offset + batchStart + index;
+          
+          try {
+            const business = await this.scrapeBusinessDetails(businessLink, globalIndex + 1, total, page);
+            if (business) {
+              console.log(`✅ Successfully scraped business ${globalIndex + 1}: ${business.name}`);
+              return business;
             }
+          } catch (error) {
+            console.error(`❌ Error scraping business ${globalIndex + 1}:`, error);
+          }
+          return null;
+        });
+
+        const batchResults = await Promise.allSettled(batchPromises);
+        
+        // Process results
+        for (let index = 0; index < batchResults.length; index++) {
+          const result = batchResults[index];
+          if (result.status === 'fulfilled' && result.value) {
+            await this.recordBusiness(currentBatch[index], result.value);
           }
-        } catch (error) {
-          console.error('❌ Error creating parallel pages:', error);
-          // Fall back to sequential scraping
-          pages.length = 0;
         }
 
-        // Scrape businesses in parallel if we have multiple pages
-        if (pages.length > 1) {
-          const batchPromises = currentBatch.map(async (businessLink, index) => {
-            const pageIndex = index % pages.length;
-            const page = pages[pageIndex];
-            const globalIndex = batchStart + index;
-            
-            try {
-              const business = await this.scrapeBusinessDetailsParallel(businessLink, globalIndex + 1, linksToProcess.length, page);
+        // Close parallel pages
+        await Promise.all(pages.map(page => page.close().catch(() => {})));
+        
+      } else {
+        // Fall back to sequential scraping
+        for (let i = 0; i < currentBatch.length; i++) {
+          const globalIndex = offset + batchStart + i;
+          this.currentBusinessIndex = globalIndex;
+
+          try {
+            const businessLink = currentBatch[i];
+            if (businessLink) {
+              // Reduced delay for faster processing
+              if (i > 0) {
+                const baseDelay = parseInt(process.env.SCRAPING_DELAY_MIN || '1000');
+                const maxExtraDelay = parseInt(process.env.SCRAPING_DELAY_MAX || '2000');
+                const scaledDelay = Math.min(baseDelay + Math.floor(i / 10) * 200, 2000);
+                const delay = scaledDelay + Math.random() * maxExtraDelay;
+                
+                // Reduce delay in conservative mode to prevent timeouts
+                const finalDelay = process.env.CONSERVATIVE_SCRAPING === 'true' 
+                  ? Math.min(delay, 1500) // Cap at 1.5 seconds in conservative mode
+                  : delay;
+                
+                console.log(`⏳ Waiting ${Math.round(finalDelay)}ms before scraping business ${globalIndex + 1}/${total}`);
+                await new Promise(resolve => setTimeout(resolve, finalDelay));
+              }
+              
+              const business = await this.scrapeBusinessDetails(businessLink, globalIndex + 1, total);
               if (business) {
+                await this.recordBusiness(businessLink, business);
                 console.log(`✅ Successfully scraped business ${globalIndex + 1}: ${business.name}`);
-                return business;
+              } else {
+                console.log(`❌ Failed to scrape business ${globalIndex + 1}`);
               }
-            } catch (error) {
-              console.error(`❌ Error scraping business ${globalIndex + 1}:`, error);
             }
-            return null;
-          });
-
-          const batchResults = await Promise.allSettled(batchPromises);
+          } catch (error) {
+            console.error(`❌ Error scraping business ${globalIndex + 1}:`, error);
+          }
           
-          // Process results
-          batchResults.forEach((result, index) => {
-            if (result.status === 'fulfilled' && result.value) {
-              this.scrapedBusinesses.push(result.value);
-            }
+          // Update progress more frequently
+          const progressPercent = 10 + (globalIndex / total) * 85;
+          this.updateProgress({
+            status: this.isPaused() ? 'paused' : 'scraping',
+            currentStep: this.isPaused() 
+              ? 'Scraping paused by user' 
+              : `Scraped ${this.scrapedBusinesses.length}/${total} businesses`,
+            progress: progressPercent,
+            totalFound: total,
+            scraped: this.scrapedBusinesses.length,
+            errors: []
           });
+        }
+      }
+      
+      // Brief pause between batches to be respectful
+      if (batchEnd < linksToProcess.length) {
+        console.log(`📊 Batch completed: ${this.scrapedBusinesses.length}/${total} businesses scraped`);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
 
-          // Close parallel pages
-          await Promise.all(pages.map(page => page.close().catch(() => {})));
-          
-        } else {
-          // Fall back to sequential scraping
-          for (let i = 0; i < currentBatch.length; i++) {
-            const globalIndex = batchStart + i;
-            this.currentBusinessIndex = globalIndex;
+    if (this.enrichWebsites && !this.isCancelled()) {
+      await this.enrichBusinesses(total);
+    }
 
-            try {
-              const businessLink = currentBatch[i];
-              if (businessLink) {
-                // Reduced delay for faster processing
-                if (i > 0) {
-                  const baseDelay = parseInt(process.env.SCRAPING_DELAY_MIN || '1000');
-                  const maxExtraDelay = parseInt(process.env.SCRAPING_DELAY_MAX || '2000');
-                  const scaledDelay = Math.min(baseDelay + Math.floor(i / 10) * 200, 2000);
-                  const delay = scaledDelay + Math.random() * maxExtraDelay;
-                  
-                  // Reduce delay in conservative mode to prevent timeouts
-                  const finalDelay = process.env.CONSERVATIVE_SCRAPING === 'true' 
-                    ? Math.min(delay, 1500) // Cap at 1.5 seconds in conservative mode
-                    : delay;
-                  
-                  console.log(`⏳ Waiting ${Math.round(finalDelay)}ms before scraping business ${globalIndex + 1}/${linksToProcess.length}`);
-                  await new Promise(resolve => setTimeout(resolve, finalDelay));
-                }
-                
-                const business = await this.scrapeBusinessDetails(businessLink, globalIndex + 1, linksToProcess.length);
-                if (business) {
-                  this.scrapedBusinesses.push(business);
-                  console.log(`✅ Successfully scraped business ${globalIndex + 1}: ${business.name}`);
-                } else {
-                  console.log(`❌ Failed to scrape business ${globalIndex + 1}`);
-                }
-              }
-            } catch (error) {
-              console.error(`❌ Error scraping business ${globalIndex + 1}:`, error);
-            }
-            
-            // Update progress more frequently
-            const progressPercent = 10 + (globalIndex / linksToProcess.length) * 85;
-            this.updateProgress({
-              status: this.isPaused() ? 'paused' : 'scraping',
-              currentStep: this.isPaused() 
-                ? 'Scraping paused by user' 
-                : `Scraped ${this.scrapedBusinesses.length}/${linksToProcess.length} businesses`,
-              progress: progressPercent,
-              totalFound: linksToProcess.length,
-              scraped: this.scrapedBusinesses.length,
-              errors: []
-            });
-          }
+    // Set final state
+    if (this.isCancelled()) {
+      this.updateProgress({
+        status: 'cancelled',
+        currentStep: 'Scraping cancelled by user',
+        progress: Math.round((this.currentBusinessIndex / total) * 100),
+        totalFound: total,
+        scraped: this.scrapedBusinesses.length,
+        errors: []
+      });
+    } else {
+      this.scrapingState = 'completed';
+      this.updateProgress({
+        status: 'completed',
+        currentStep: 'Scraping completed!',
+        progress: 100,
+        totalFound: total,
+        scraped: this.scrapedBusinesses.length,
+        errors: []
+      });
+    }
+  }
+
+  // Optional pass after scraping: crawl each business website for emails, social
+  // profiles and a contact form. Enriched records are checkpointed, so a resumed
+  // job skips them
+  private async enrichBusinesses(total: number): Promise<void> {
+    const pending = this.scrapedBusinesses.filter(business => business.website && !business.enrichment);
+    if (pending.length === 0) return;
+
+    if (!this.websiteCrawler) {
+      this.websiteCrawler = createWebsiteCrawlerFromEnv(() => this.createPage());
+    }
+    const crawler = this.websiteCrawler;
+    const concurrency = Math.max(1, parseInt(process.env.ENRICH_CONCURRENCY || '3'));
+    const websiteCount = pending.length;
+    let enriched = 0;
+
+    console.log(`📇 Enriching ${websiteCount} business websites with ${concurrency} concurrent crawlers`);
+
+    const worker = async () => {
+      while (pending.length > 0) {
+        if (this.isPaused()) {
+          await this.waitForResume();
         }
-        
-        // Brief pause between batches to be respectful
-        if (batchEnd < linksToProcess.length) {
-          console.log(`📊 Batch completed: ${this.scrapedBusinesses.length}/${linksToProcess.length} businesses scraped`);
-          await new Promise(resolve => setTimeout(resolve, 1000));
+        if (this.isCancelled()) return;
+
+        const business = pending.shift()!;
+        try {
+          const contacts = await crawler.crawl(business.website!);
+          const enrichedBusiness = { ...business, ...contacts };
+          const index = this.scrapedBusinesses.indexOf(business);
+          if (index !== -1) {
+            this.scrapedBusinesses[index] = enrichedBusiness;
+          }
+          const link = this.checkpointLinks.get(business.id);
+          if (link) {
+            await this.checkpoint((store, jobId) => store.updateBusiness(jobId, link, enrichedBusiness));
+          }
+          console.log(`📇 ${business.name}: ${contacts.emails?.length || 0} emails, ${Object.keys(contacts.socialProfiles || {}).length} social profiles${contacts.enrichment?.error ? ` (${contacts.enrichment.error})` : ''}`);
+        } catch (error) {
+          console.error(`⚠️ Website enrichment failed for ${business.name}:`, error instanceof Error ? error.message : 'Unknown error');
         }
-      }
 
-      // Set final state
-      if (this.isCancelled()) {
-        this.updateProgress({
-          status: 'cancelled',
-          currentStep: 'Scraping cancelled by user',
-          progress: Math.round((this.currentBusinessIndex / linksToProcess.length) * 100),
-          totalFound: linksToProcess.length,
-          scraped: this.scrapedBusinesses.length,
-          errors: []
-        });
-      } else {
-        this.scrapingState = 'completed';
+        enriched++;
         this.updateProgress({
-          status: 'completed',
-          currentStep: 'Scraping completed!',
-          progress: 100,
-          totalFound: linksToProcess.length,
+          status: 'scraping',
+          currentStep: `Enriched ${enriched}/${websiteCount} websites`,
+          progress: 95 + (enriched / websiteCount) * 5,
+          totalFound: total,
           scraped: this.scrapedBusinesses.length,
           errors: []
         });
       }
+    };
 
-      return this.scrapedBusinesses;
-    } catch (error) {
-      console.error('❌ Error during scraping:', error);
-      throw error;
+    await Promise.all(Array.from({ length: Math.min(concurrency, websiteCount) }, worker));
+  }
+
+  // Tag a scraped business with the category queries that found it, then keep and checkpoint it
+  private async recordBusiness(link: string, business: BusinessData): Promise<void> {
+    const tagged: BusinessData = {
+      ...business,
+      matchedCategories: this.linkCategories.get(normalizePlaceKey(link))
+    };
+
+    this.scrapedBusinesses.push(tagged);
+    this.checkpointLinks.set(tagged.id, link);
+    await this.checkpoint((store, jobId) => store.saveBusiness(jobId, link, tagged));
+  }
+
+  private getLinkCategories(links: string[]): Record<string, string[]> {
+    const linkCategories: Record<string, string[]> = {};
+    links.forEach(link => {
+      const matched = this.linkCategories.get(normalizePlaceKey(link));
+      if (matched) linkCategories[link] = matched;
+    });
+    return linkCategories;
+  }
+
+  // Found/scraped counts per selected category; a business can count towards several
+  private getCategoryProgress(): CategoryProgress[] | undefined {
+    if (this.sessionCategories.length < 2) return undefined;
+
+    return this.sessionCategories.map(category => {
+      let found = 0;
+      this.linkCategories.forEach(matched => {
+        if (matched.includes(category)) found++;
+      });
+      const scraped = this.scrapedBusinesses.filter(business =>
+        business.matchedCategories?.includes(category)
+      ).length;
+
+      return { category, found, scraped };
+    });
+  }
+
+  // Continue a persisted job from the first unscraped link, skipping search and scrolling
+  async resumeFromCheckpoint(record: JobRecord): Promise<BusinessData[]> {
+    if (!this.page) {
+      throw new Error('Scraper not initialized');
+    }
+
+    // Job died before link discovery finished; nothing to resume from
+    if (record.businessLinks.length === 0) {
+      console.log('🔁 No checkpointed links, restarting search from scratch');
+      return this.scrapeBusinesses(record.params);
     }
+
+    if (this.scrapingState !== 'cancelled') {
+      this.scrapingState = 'running';
+    }
+    this.sessionCategories = record.params.categories;
+    this.linkCategories = new Map();
+    this.searchCountry = inferSearchCountry(record.params);
+    this.enrichWebsites = !!record.params.enrichWebsites;
+    this.reviewLimit = this.getReviewLimit(record.params);
+    const linkCategories = record.linkCategories || {};
+    Object.keys(linkCategories).forEach(link => {
+      this.linkCategories.set(normalizePlaceKey(link), linkCategories[link]);
+    });
+    this.scrapedBusinesses = [...record.businesses];
+    this.checkpointLinks = new Map();
+    record.businesses.forEach((business, index) => {
+      this.checkpointLinks.set(business.id, record.scrapedLinks[index]);
+    });
+    this.businessLinks = record.businessLinks;
+    this.currentBusinessIndex = this.scrapedBusinesses.length;
+
+    const scrapedLinks = new Set(record.scrapedLinks);
+    const linksInScope = record.businessLinks.slice(0, this.getMaxResultsLimit(record.params));
+    const remainingLinks = linksInScope.filter(link => !scrapedLinks.has(link));
+    this.totalBusinessesToScrape = linksInScope.length;
+
+    console.log(`🔁 Resuming job ${record.id}: ${this.scrapedBusinesses.length} already scraped, ${remainingLinks.length} remaining`);
+
+    this.updateProgress({
+      status: 'scraping',
+      currentStep: `Resuming: ${remainingLinks.length} businesses left to scrape`,
+      progress: 10 + ((linksInScope.length - remainingLinks.length) / linksInScope.length) * 85,
+      totalFound: linksInScope.length,
+      scraped: this.scrapedBusinesses.length,
+      errors: []
+    });
+
+    await this.scrapeLinks(remainingLinks, linksInScope.length, linksInScope.length - remainingLinks.length);
+    return this.scrapedBusinesses;
+  }
+
+  // Respect user's maxResults parameter, but allow up to 500 by default
+  private getMaxResultsLimit(params: SearchParams): number {
+    const userMaxResults = params.maxResults || 500;
+    const envMaxResults = parseInt(process.env.MAX_BUSINESSES_PER_SEARCH || '500');
+    return Math.min(userMaxResults, envMaxResults);
   }
 
   private async scrollAndLoadAllResults(): Promise<void> {
@@ -880,73 +1309,84 @@ export class GoogleMapsScraper {
     }
   }
 
-  private async scrapeBusinessDetails(url: string, currentBusinessIndex: number = 0, totalBusinesses: number = 0): Promise<BusinessData | null> {
-    if (!this.page || !this.browser) {
-      console.error('❌ Browser or page not available');
+  // Open a place page and extract its details with the selector profile. With
+  // `workerPage` it runs as one of several parallel workers: shorter timeouts,
+  // fewer retries and no browser restarts. Otherwise it drives the main page
+  private async scrapeBusinessDetails(url: string, currentBusinessIndex: number = 0, totalBusinesses: number = 0, workerPage?: Page): Promise<BusinessData | null> {
+    const cached = await this.getCachedBusiness(url, currentBusinessIndex);
+    if (cached) return cached;
+
+    const parallel = workerPage !== undefined;
+    const settings = parallel ? PARALLEL_DETAIL_SETTINGS : SEQUENTIAL_DETAIL_SETTINGS;
+    const tag = parallel ? '[PARALLEL] ' : '';
+    const initialPage = workerPage || this.page;
+
+    if (!initialPage || !this.browser) {
+      console.error(`❌ ${tag}Browser or page not available`);
       return null;
     }
+    let page: Page = initialPage;
 
-    let retries = 3;
+    let retries = settings.retries;
     while (retries > 0) {
       try {
         // Check if browser is still connected and reinitialize if needed
-        if (!this.browser.connected) {
+        if (!parallel && !this.browser.connected) {
           console.error('❌ Browser disconnected, reinitializing...');
           await this.initialize();
           if (!this.page) {
             console.error('❌ Failed to reinitialize browser');
             return null;
           }
+          page = this.page;
         }
 
         // Check if page is still valid
         try {
-          await this.page.evaluate(() => document.readyState);
+          await page.evaluate(() => document.readyState);
         } catch (e) {
           console.log('⚠️ Page context invalid, creating new page...');
           if (this.browser && this.browser.connected) {
-            this.page = await this.browser.newPage();
-            await this.page.setViewport({ width: 1920, height: 1080 });
-            await this.page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36');
-            await this.page.setDefaultNavigationTimeout(30000);
-            await this.page.setDefaultTimeout(30000);
+            page = await this.createPage();
+            if (!parallel) {
+              this.page = page;
+            }
           } else {
             console.error('❌ Browser not available for page recreation');
             return null;
           }
         }
 
-        // Navigate with increased timeout for better reliability
-        console.log(`🔍 Scraping business ${currentBusinessIndex}/${totalBusinesses}: ${url.substring(0, 100)}...`);
+        console.log(`🔍 ${tag}Scraping business ${currentBusinessIndex}/${totalBusinesses}: ${url.substring(0, 100)}...`);
         
-        await this.page.goto(url, { 
-          waitUntil: 'networkidle2', 
-          timeout: 45000  // Increased from 20s to 45s
+        await page.goto(url, { 
+          waitUntil: settings.waitUntil, 
+          timeout: settings.navigationTimeout
         });
         
-        // Wait for page to be ready - increased wait time
-        await new Promise(resolve => setTimeout(resolve, 3000));
+        // Give client-side rendering time to fill in the panel
+        await new Promise(resolve => setTimeout(resolve, settings.settleDelay));
 
         // Check for common Google Maps error pages
-        const pageTitle = await this.page.title().catch(() => '');
-        const pageUrl = this.page.url();
+        const pageTitle = await page.title().catch(() => '');
+        const pageUrl = page.url();
         
         if (!pageTitle || 
             pageTitle.includes('Error') || 
             pageTitle.includes('404') ||
             pageUrl.includes('sorry') ||
             pageUrl.includes('blocked')) {
-          console.warn(`⚠️ Invalid or blocked page for business ${currentBusinessIndex}: ${pageTitle}`);
+          console.warn(`⚠️ ${tag}Invalid or blocked page for business ${currentBusinessIndex}: ${pageTitle}`);
           
           // If blocked, wait longer before retrying
-          if (pageUrl.includes('blocked') || pageUrl.includes('sorry')) {
+          if (!parallel && (pageUrl.includes('blocked') || pageUrl.includes('sorry'))) {
             console.log(`🚫 Detected blocking, waiting 10 seconds before retry...`);
             await new Promise(resolve => setTimeout(resolve, 10000));
           }
           
           retries--;
           if (retries === 0) {
-            console.error(`❌ Failed to load business page after all retries: ${currentBusinessIndex}`);
+            console.error(`❌ ${tag}Failed to load business page after all retries: ${currentBusinessIndex}`);
             return null;
           }
           continue;
@@ -954,212 +1394,35 @@ export class GoogleMapsScraper {
 
         // Try to detect if the page has loaded properly by checking for business content
         try {
-          await this.page.waitForSelector('h1, [data-attrid="title"], .DUwDvf', { timeout: 10000 });
+          await page.waitForSelector('h1, [data-attrid="title"], .DUwDvf', { timeout: settings.contentTimeout });
         } catch (selectorTimeout) {
-          console.warn(`⚠️ Business content not found for ${currentBusinessIndex}, might be empty page`);
+          console.warn(`⚠️ ${tag}Business content not found for ${currentBusinessIndex}, might be empty page`);
           retries--;
           if (retries === 0) return null;
-          await new Promise(resolve => setTimeout(resolve, 2000));
+          await new Promise(resolve => setTimeout(resolve, settings.retryDelay));
           continue;
         }
 
-        const businessData = await this.page.evaluate(() => {
-          const getName = (): string => {
-            const selectors = [
-              'h1[data-attrid="title"]',
-              '[data-attrid="title"] span',
-              'h1.DUwDvf',
-              'h1.x3AX1-LfntMc-header-title-title',
-              'h1',
-              '.DUwDvf',
-              '.SPZz6b h1'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                return element.textContent.trim();
-              }
-            }
-            return '';
-          };
-
-          const getAddress = (): string => {
-            const selectors = [
-              '[data-item-id="address"] .Io6YTe',
-              '[data-attrid="kc:/location/location:address"]',
-              '.LrzXr',
-              '[data-value="Address"]',
-              '.rogA2c .Io6YTe',
-              '.lI9IFe'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                return element.textContent.trim();
-              }
-            }
-            return '';
-          };
-
-          const getPhone = (): string => {
-            const selectors = [
-              '[data-item-id*="phone"] .Io6YTe',
-              '[data-attrid*="phone"]',
-              'span[dir="ltr"]',
-              '[data-value="Phone"]',
-              '.rogA2c [data-item-id*="phone"]',
-              'a[href^="tel:"]'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                const phone = element.textContent.trim();
-                // Validate phone number format
-                if (/[\d\+\-\(\)\s]{7,}/.test(phone)) {
-                  return phone;
-                }
-              }
-            }
-            return '';
-          };
-
-          const getWebsite = (): string => {
-            const selectors = [
-              'a[data-item-id*="authority"]',
-              'a[data-attrid*="website"]',
-              'a[href^="http"]:not([href*="google.com"])',
-              '[data-value="Website"] a'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector) as HTMLAnchorElement;
-              if (element?.href && !element.href.includes('google.com')) {
-                return element.href;
-              }
-            }
-            return '';
-          };
-
-          const getRating = (): number => {
-            const selectors = [
-              '[data-attrid="review-score"] span',
-              '.lTi8oc',
-              '[aria-label*="stars"]',
-              '.fontDisplayLarge'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent) {
-                const ratingText = element.textContent.trim();
-                const rating = parseFloat(ratingText);
-                if (!isNaN(rating) && rating >= 0 && rating <= 5) {
-                  return rating;
-                }
-              }
-            }
-            return 0;
-          };
-
-          const getReviewCount = (): number => {
-            const selectors = [
-              '[data-attrid="review-score"] + span',
-              '.lTi8oc + span',
-              '[aria-label*="reviews"]'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent) {
-                const reviewText = element.textContent.trim();
-                const match = reviewText.match(/(\d+(?:,\d+)*)/);
-                if (match) {
-                  return parseInt(match[1].replace(/,/g, ''));
-                }
-              }
-            }
-            return 0;
-          };
-
-          const getCategory = (): string => {
-            const selectors = [
-              '[data-attrid="kc:/local:place_type"]',
-              '.rogA2c .Io6YTe',
-              '[data-value="Category"]',
-              '.lI9IFe'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                return element.textContent.trim();
-              }
-            }
-            return '';
-          };
-
-          const getHours = (): string => {
-            const selectors = [
-              '[data-item-id*="hours"]',
-              '[data-attrid*="hours"]',
-              '[data-value="Hours"]',
-              '.rogA2c [data-item-id*="hours"]'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                return element.textContent.trim();
-              }
-            }
-            return '';
-          };
-
-          return {
-            name: getName(),
-            address: getAddress(),
-            phone: getPhone(),
-            website: getWebsite(),
-            rating: getRating(),
-            reviewCount: getReviewCount(),
-            category: getCategory(),
-            hours: getHours()
-          };
-        });
-
-        // Extract coordinates from URL
-        const coordinates = this.extractCoordinatesFromUrl(url);
+        const extraction = await extractPlaceDetails(page);
+        const business = this.buildBusiness(url, currentBusinessIndex, extraction);
+        await this.captureFixture('place', url, page, business);
 
-        if (coordinates) {
-          console.log(`✅ Extracted coordinates from URL: ${coordinates.lat}, ${coordinates.lng}`);
+        // Opening the About and reviews tabs changes the page, so these run after
+        // extraction and capture
+        Object.assign(business, await this.scrapeInsights(page, business));
+        if (this.reviewLimit > 0) {
+          business.reviews = await this.scrapeReviews(page, business);
         }
 
-        // Create business data object
-        const business: BusinessData = {
-          id: `business_${Date.now()}_${currentBusinessIndex}`,
-          name: businessData.name || 'Unknown Business',
-          address: businessData.address || 'Address not available',
-          phone: businessData.phone || undefined,
-          website: businessData.website || undefined,
-          rating: businessData.rating > 0 ? businessData.rating : undefined,
-          reviewCount: businessData.reviewCount > 0 ? businessData.reviewCount : undefined,
-          category: businessData.category || undefined,
-          hours: businessData.hours || undefined,
-          coordinates: coordinates,
-          scrapedAt: new Date()
-        };
-
-        console.log(`✅ Successfully extracted data for business ${currentBusinessIndex}: ${business.name}`);
+        console.log(`✅ ${tag}Successfully extracted data for business ${currentBusinessIndex}: ${business.name}`);
+        await this.cacheBusiness(url, business);
         return business;
 
       } catch (error) {
-        console.error(`❌ Error scraping business ${currentBusinessIndex}:`, error);
+        console.error(`❌ ${tag}Error scraping business ${currentBusinessIndex}:`, error);
         
         // Check if it's a browser disconnection error
-        if (error instanceof Error && (
+        if (!parallel && error instanceof Error && (
           error.message.includes('frame was detached') ||
           error.message.includes('Target closed') ||
           error.message.includes('Session closed')
@@ -1171,6 +1434,7 @@ export class GoogleMapsScraper {
               console.error('❌ Failed to reinitialize browser after disconnection');
               return null;
             }
+            page = this.page;
             console.log('✅ Browser reinitialized successfully');
           } catch (reinitError) {
             console.error('❌ Failed to reinitialize browser:', reinitError);
@@ -1181,299 +1445,250 @@ export class GoogleMapsScraper {
         retries--;
         
         if (retries === 0) {
-          console.error(`❌ Failed to scrape business ${currentBusinessIndex} after all retries`);
+          console.error(`❌ ${tag}Failed to scrape business ${currentBusinessIndex} after all retries`);
           return null;
         }
         
         // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        await new Promise(resolve => setTimeout(resolve, settings.retryDelay));
       }
     }
     
     return null;
   }
 
-  private async scrapeBusinessDetailsParallel(url: string, currentBusinessIndex: number = 0, totalBusinesses: number = 0, page: Page): Promise<BusinessData | null> {
-    if (!page) {
-      console.error('❌ Page not available for parallel scraping');
-      return null;
+  private buildBusiness(url: string, currentBusinessIndex: number, extraction: ExtractionResult): BusinessData {
+    const { place, profileVersion, matchedSelectors } = extraction;
+
+    const missing = (Object.keys(DEFAULT_SELECTOR_PROFILE.fields) as ExtractedField[])
+      .filter(field => !matchedSelectors[field]);
+    if (missing.length > 0) {
+      console.log(`🔎 No selector matched for business ${currentBusinessIndex}: ${missing.join(', ')}`);
     }
 
-    let retries = 2; // Reduced retries for parallel scraping
-    while (retries > 0) {
-      try {
-        // Check if page is still valid
-        try {
-          await page.evaluate(() => document.readyState);
-        } catch (e) {
-          console.log('⚠️ Page context invalid, creating new page...');
-          if (this.browser && this.browser.connected) {
-            page = await this.browser.newPage();
-            await page.setViewport({ width: 1920, height: 1080 });
-            await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36');
-            await page.setDefaultNavigationTimeout(30000);
-            await page.setDefaultTimeout(30000);
-          } else {
-            console.error('❌ Browser not available for page recreation');
-            return null;
-          }
-        }
+    // Extract coordinates from URL
+    const coordinates = this.extractCoordinatesFromUrl(url);
+    const photoLimit = this.getPhotoLimit();
+    const photos = (place.photos || []).slice(0, photoLimit);
+
+    const placeId = extractPlaceId(url) || place.placeId;
+    const business: BusinessData = {
+      id: this.businessId(url, placeId),
+      name: place.name || 'Unknown Business',
+      address: place.address || 'Address not available',
+      addressComponents: parseAddress(place.address, this.searchCountry),
+      phone: place.phone,
+      phoneDetails: place.phone ? this.normalizeBusinessPhone(place.phone, place.address) : undefined,
+      website: place.website,
+      rating: place.rating,
+      reviewCount: place.reviewCount,
+      category: place.category,
+      hours: place.hours,
+      openingHours: parseOpeningHours(place.hoursDetail || place.hours),
+      priceLevel: place.priceLevel,
+      coordinates: coordinates,
+      placeId,
+      photos: photos.length > 0 ? photos : undefined,
+      description: place.description,
+      extraction: { profileVersion, matchedSelectors },
+      scrapedAt: new Date()
+    };
 
-        // Navigate with optimized timeout for parallel scraping
-        console.log(`🔍 [PARALLEL] Scraping business ${currentBusinessIndex}/${totalBusinesses}: ${url.substring(0, 80)}...`);
-        
-        await page.goto(url, { 
-          waitUntil: 'domcontentloaded', // Faster than networkidle2
-          timeout: 30000  // Reduced timeout for parallel scraping
-        });
-        
-        // Reduced wait time for parallel scraping
-        await new Promise(resolve => setTimeout(resolve, 1500));
+    if (business.phoneDetails && !business.phoneDetails.valid) {
+      console.log(`☎️ Invalid phone for business ${currentBusinessIndex}: ${business.phone}`);
+    }
 
-        // Check for common Google Maps error pages
-        const pageTitle = await page.title().catch(() => '');
-        const pageUrl = page.url();
-        
-        if (!pageTitle || 
-            pageTitle.includes('Error') || 
-            pageTitle.includes('404') ||
-            pageUrl.includes('sorry') ||
-            pageUrl.includes('blocked')) {
-          console.warn(`⚠️ [PARALLEL] Invalid page for business ${currentBusinessIndex}: ${pageTitle}`);
-          retries--;
-          if (retries === 0) return null;
-          continue;
-        }
+    business.quality = assessQuality(business);
+    if (business.quality.score < 50) {
+      console.log(`⚠️ Low quality score for business ${currentBusinessIndex}: ${business.quality.score}/100`);
+    }
+    return business;
+  }
 
-        // Try to detect if the page has loaded properly
-        try {
-          await page.waitForSelector('h1, [data-attrid="title"], .DUwDvf', { timeout: 8000 });
-        } catch (selectorTimeout) {
-          console.warn(`⚠️ [PARALLEL] Business content not found for ${currentBusinessIndex}`);
-          retries--;
-          if (retries === 0) return null;
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          continue;
-        }
+  // The place's own address names its country more reliably than the search does
+  private normalizeBusinessPhone(phone: string, address?: string): PhoneDetails {
+    return normalizePhone(phone, inferCountryFromText(address) || this.searchCountry || getDefaultPhoneCountry());
+  }
 
-        const businessData = await page.evaluate(() => {
-          const getName = (): string => {
-            const selectors = [
-              'h1[data-attrid="title"]',
-              '[data-attrid="title"] span',
-              'h1.DUwDvf',
-              'h1.x3AX1-LfntMc-header-title-title',
-              'h1',
-              '.DUwDvf',
-              '.SPZz6b h1'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                return element.textContent.trim();
-              }
-            }
-            return '';
-          };
-
-          const getAddress = (): string => {
-            const selectors = [
-              '[data-item-id="address"] .Io6YTe',
-              '[data-attrid="kc:/location/location:address"]',
-              '.LrzXr',
-              '[data-value="Address"]',
-              '.rogA2c .Io6YTe',
-              '.lI9IFe'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                return element.textContent.trim();
-              }
-            }
-            return '';
-          };
-
-          const getPhone = (): string => {
-            const selectors = [
-              '[data-item-id*="phone"] .Io6YTe',
-              '[data-attrid*="phone"]',
-              'span[dir="ltr"]',
-              '[data-value="Phone"]',
-              '.rogA2c [data-item-id*="phone"]',
-              'a[href^="tel:"]'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                const phone = element.textContent.trim();
-                if (/[\d\+\-\(\)\s]{7,}/.test(phone)) {
-                  return phone;
-                }
-              }
-            }
-            return '';
-          };
-
-          const getWebsite = (): string => {
-            const selectors = [
-              'a[data-item-id*="authority"]',
-              'a[data-attrid*="website"]',
-              'a[href^="http"]:not([href*="google.com"])',
-              '[data-value="Website"] a'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector) as HTMLAnchorElement;
-              if (element?.href && !element.href.includes('google.com')) {
-                return element.href;
-              }
-            }
-            return '';
-          };
-
-          const getRating = (): number => {
-            const selectors = [
-              '[data-attrid="review-score"] span',
-              '.lTi8oc',
-              '[aria-label*="stars"]',
-              '.fontDisplayLarge'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent) {
-                const ratingText = element.textContent.trim();
-                const rating = parseFloat(ratingText);
-                if (!isNaN(rating) && rating >= 0 && rating <= 5) {
-                  return rating;
-                }
-              }
-            }
-            return 0;
-          };
-
-          const getReviewCount = (): number => {
-            const selectors = [
-              '[data-attrid="review-score"] + span',
-              '.lTi8oc + span',
-              '[aria-label*="reviews"]'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent) {
-                const reviewText = element.textContent.trim();
-                const match = reviewText.match(/(\d+(?:,\d+)*)/);
-                if (match) {
-                  return parseInt(match[1].replace(/,/g, ''));
-                }
-              }
-            }
-            return 0;
-          };
-
-          const getCategory = (): string => {
-            const selectors = [
-              '[data-attrid="kc:/local:place_type"]',
-              '.rogA2c .Io6YTe',
-              '[data-value="Category"]',
-              '.lI9IFe'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                return element.textContent.trim();
-              }
-            }
-            return '';
-          };
-
-          const getHours = (): string => {
-            const selectors = [
-              '[data-item-id*="hours"]',
-              '[data-attrid*="hours"]',
-              '[data-value="Hours"]',
-              '.rogA2c [data-item-id*="hours"]'
-            ];
-            
-            for (const selector of selectors) {
-              const element = document.querySelector(selector);
-              if (element?.textContent?.trim()) {
-                return element.textContent.trim();
-              }
-            }
-            return '';
-          };
-
-          return {
-            name: getName(),
-            address: getAddress(),
-            phone: getPhone(),
-            website: getWebsite(),
-            rating: getRating(),
-            reviewCount: getReviewCount(),
-            category: getCategory(),
-            hours: getHours()
-          };
-        });
+  // Run the extraction engine on a saved place page, exactly as a live scrape would
+  async extractBusinessFromSnapshot(html: string, url: string): Promise<BusinessData> {
+    const page = await this.openSnapshot(html);
+    try {
+      return this.buildBusiness(url, 0, await extractPlaceDetails(page));
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
 
-        // Extract coordinates from URL
-        const coordinates = this.extractCoordinatesFromUrl(url);
-
-        // Create business data object
-        const business: BusinessData = {
-          id: `business_${Date.now()}_${currentBusinessIndex}`,
-          name: businessData.name || 'Unknown Business',
-          address: businessData.address || 'Address not available',
-          phone: businessData.phone || undefined,
-          website: businessData.website || undefined,
-          rating: businessData.rating > 0 ? businessData.rating : undefined,
-          reviewCount: businessData.reviewCount > 0 ? businessData.reviewCount : undefined,
-          category: businessData.category || undefined,
-          hours: businessData.hours || undefined,
-          coordinates: coordinates,
-          scrapedAt: new Date()
-        };
-
-        console.log(`✅ [PARALLEL] Successfully scraped business ${currentBusinessIndex}: ${business.name}`);
-        return business;
+  async extractResultLinksFromSnapshot(html: string): Promise<string[]> {
+    const page = await this.openSnapshot(html);
+    try {
+      return await extractResultLinks(page);
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
 
-      } catch (error) {
-        console.error(`❌ [PARALLEL] Error scraping business ${currentBusinessIndex}:`, error);
-        retries--;
-        
-        if (retries === 0) {
-          console.error(`❌ [PARALLEL] Failed to scrape business ${currentBusinessIndex} after all retries`);
-          return null;
-        }
-        
-        // Shorter wait before retrying for parallel scraping
-        await new Promise(resolve => setTimeout(resolve, 1000));
+  // Static copy of a saved page: no scripts and no network, so results only depend on the HTML
+  private async openSnapshot(html: string): Promise<Page> {
+    const page = await this.createPage();
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      request.abort().catch(() => {});
+    });
+    await page.setContent(html, { waitUntil: 'domcontentloaded' });
+    return page;
+  }
+
+  // Debug scrapes with CAPTURE_FIXTURES=true save each page and its extraction for the offline harness
+  private async captureFixture(kind: FixtureKind, url: string, page: Page, expected: BusinessData | string[]): Promise<void> {
+    if (process.env.CAPTURE_FIXTURES !== 'true') return;
+
+    try {
+      const name = await saveFixture(kind, url, await page.content(), expected);
+      console.log(`📸 Captured ${kind} fixture ${name}`);
+    } catch (error) {
+      console.error(`⚠️ Failed to capture ${kind} fixture:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async createPage(): Promise<Page> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized');
+    }
+
+    const page = await this.browser.newPage();
+    await page.setViewport({ width: 1920, height: 1080 });
+    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36');
+    await page.setDefaultNavigationTimeout(30000);
+    await page.setDefaultTimeout(30000);
+    return page;
+  }
+
+  // Same ID every time a place is scraped, so results from separate runs can be merged
+  private businessId(url: string, placeId?: string): string {
+    return stableBusinessId(placeId ? `place:${placeId}` : normalizePlaceKey(url));
+  }
+
+  // Serve a fresh place-cache hit without navigating to the place page
+  private async getCachedBusiness(url: string, currentBusinessIndex: number): Promise<BusinessData | null> {
+    try {
+      const hit = await getPlaceCache().get(normalizePlaceKey(url));
+      if (!hit || !this.hasEnoughReviews(hit.value)) {
+        this.cacheMisses++;
+        return null;
+      }
+
+      this.cacheHits++;
+      const { reviewLimit, ...cached } = hit.value;
+      console.log(`💾 Cache hit for business ${currentBusinessIndex}: ${cached.name} (${Math.round(hit.ageMs / 60000)} min old)`);
+      const id = this.businessId(url, cached.placeId);
+      const business: BusinessData = {
+        ...cached,
+        id,
+        // Only reviews this search asked for, linked to the current ID
+        reviews: this.reviewLimit > 0
+          ? cached.reviews?.slice(0, this.reviewLimit).map(review => ({ ...review, businessId: id }))
+          : undefined
+      };
+
+      // Entries cached before address parsing, phone normalization and quality scoring existed
+      if (!business.addressComponents) {
+        business.addressComponents = parseAddress(business.address, this.searchCountry);
+      }
+      if (business.phone && !business.phoneDetails) {
+        business.phoneDetails = this.normalizeBusinessPhone(business.phone, business.address);
       }
+      business.quality = business.quality || assessQuality(business);
+      return business;
+    } catch (error) {
+      console.error('⚠️ Place cache lookup failed:', error instanceof Error ? error.message : 'Unknown error');
+      this.cacheMisses++;
+      return null;
     }
-    
-    return null;
+  }
+
+  private async getCachedSearchLinks(params: SearchParams): Promise<CacheHit<string[]> | null> {
+    try {
+      return await getSearchCache().get(normalizeSearchKey(params));
+    } catch (error) {
+      console.error('⚠️ Search cache lookup failed:', error instanceof Error ? error.message : 'Unknown error');
+      return null;
+    }
+  }
+
+  private async cacheSearchLinks(params: SearchParams, links: string[]): Promise<void> {
+    try {
+      await getSearchCache().set(normalizeSearchKey(params), links);
+    } catch (error) {
+      console.error('⚠️ Failed to cache search results:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  // Entries cached without reviews can't serve a review search. Fewer reviews than
+  // this search wants only count as all of them when the cached scrape was allowed
+  // at least as many; otherwise it may have stopped at a lower limit
+  private hasEnoughReviews(cached: CachedPlace): boolean {
+    if (this.reviewLimit === 0) return true;
+    if (!cached.reviews) return false;
+    return cached.reviews.length >= this.reviewLimit || (cached.reviewLimit || 0) >= this.reviewLimit;
+  }
+
+  private async cacheBusiness(url: string, business: BusinessData): Promise<void> {
+    try {
+      await getPlaceCache().set(normalizePlaceKey(url), { ...business, reviewLimit: this.reviewLimit });
+    } catch (error) {
+      console.error('⚠️ Failed to cache business:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async scrapeInsights(page: Page, business: BusinessData): Promise<Partial<BusinessData>> {
+    try {
+      const insights = await extractPlaceInsights(page);
+      console.log(`📊 ${business.name}: ${insights.popularTimes ? Object.keys(insights.popularTimes).length : 0} popular-times days, ${Object.keys(insights.attributes || {}).length} attributes`);
+      return insights;
+    } catch (error) {
+      console.error(`⚠️ Failed to read popular times and attributes for ${business.name}:`, error instanceof Error ? error.message : 'Unknown error');
+      return {};
+    }
+  }
+
+  private async scrapeReviews(page: Page, business: BusinessData): Promise<BusinessData['reviews']> {
+    try {
+      const reviews = await extractReviews(page, business.id, this.reviewLimit);
+      console.log(`💬 Collected ${reviews.length} reviews for ${business.name}`);
+      return reviews;
+    } catch (error) {
+      console.error(`⚠️ Failed to collect reviews for ${business.name}:`, error instanceof Error ? error.message : 'Unknown error');
+      return undefined;
+    }
+  }
+
+  private getReviewLimit(params: SearchParams): number {
+    if (!params.includeReviews) return 0;
+    const envLimit = parseInt(process.env.MAX_REVIEWS_PER_BUSINESS || '200');
+    return Math.max(0, Math.min(params.maxReviews || 20, envLimit));
+  }
+
+  private getPhotoLimit(): number {
+    const limit = parseInt(process.env.MAX_PHOTOS_PER_BUSINESS || '5');
+    return isNaN(limit) ? 5 : Math.max(0, limit);
   }
 
   private extractCoordinatesFromUrl(url: string): { lat: number; lng: number } | undefined {
     try {
-      // Try to extract coordinates from URL parameters
+      // Place coordinates are encoded as !3d<lat>!4d<lng>, either in the /data= path
+      // segment of result links or in a `data` query parameter
       const urlObj = new URL(url);
-      const dataParam = urlObj.searchParams.get('data');
+      const dataSource = urlObj.searchParams.get('data') || urlObj.pathname;
       
-      if (dataParam) {
-        // Look for coordinates in the data parameter
-        const coordMatch = dataParam.match(/!3d(-?\d+\.\d+)!4d(-?\d+\.\d+)/);
-        if (coordMatch) {
-          const lat = parseFloat(coordMatch[1]);
-          const lng = parseFloat(coordMatch[2]);
-          return { lat, lng };
-        }
+      // Look for coordinates in the data parameter
+      const coordMatch = dataSource.match(/!3d(-?\d+\.\d+)!4d(-?\d+\.\d+)/);
+      if (coordMatch) {
+        const lat = parseFloat(coordMatch[1]);
+        const lng = parseFloat(coordMatch[2]);
+        return { lat, lng };
       }
       
       // Try alternative URL patterns
@@ -1494,7 +1709,15 @@ export class GoogleMapsScraper {
 
   private updateProgress(progress: ScrapingProgress): void {
     if (this.progressCallback) {
-      this.progressCallback(progress);
+      this.progressCallback({
+        ...progress,
+        cacheHits: this.cacheHits,
+        cacheMisses: this.cacheMisses,
+        searchCacheAgeMs: this.searchCacheAgeMs,
+        cellsDone: this.sweepCells?.done,
+        cellsRemaining: this.sweepCells?.remaining,
+        categories: this.getCategoryProgress()
+      });
     }
   }
 
@@ -1505,7 +1728,7 @@ export class GoogleMapsScraper {
         this.page = null;
       }
       if (this.browser) {
-        await this.browser.close().catch(() => {});
+        await this.browserProvider.release(this.browser).catch(() => {});
         this.browser = null;
       }
       console.log('✅ Browser cleanup completed');
@@ -0,0 +1,185 @@
+// Declarative description of how to read each place-page field. Rules are tried
+// in order; the first one whose value survives the field's post-processors wins.
+// Bump `version` whenever selectors change so scraped records can be traced back
+
+export type PostProcessor =
+  | 'text'
+  | 'rating'
+  | 'count'
+  | 'phone'
+  | 'externalUrl'
+  | 'priceLevel'
+  | 'placeId'
+  | 'urlList';
+
+export interface SelectorRule {
+  selector: string;
+  // Read this attribute instead of the text content ('href' yields the resolved URL)
+  attribute?: string;
+  // Collect every match instead of the first one; `join` merges them into one string
+  all?: boolean;
+  join?: string;
+  // How much a match from this rule can be trusted, 0–1 (default 1). Lower it for catch-all fallbacks
+  confidence?: number;
+}
+
+export interface FieldSpec {
+  rules: SelectorRule[];
+  process?: PostProcessor[];
+}
+
+export interface ExtractedPlace {
+  name?: string;
+  address?: string;
+  phone?: string;
+  website?: string;
+  rating?: number;
+  reviewCount?: number;
+  category?: string;
+  hours?: string;
+  // Weekly schedule text, parsed into BusinessData.openingHours
+  hoursDetail?: string;
+  description?: string;
+  priceLevel?: string;
+  photos?: string[];
+  placeId?: string;
+}
+
+export type ExtractedField = keyof ExtractedPlace;
+
+export interface SelectorProfile {
+  version: string;
+  fields: Record<ExtractedField, FieldSpec>;
+}
+
+export const DEFAULT_SELECTOR_PROFILE: SelectorProfile = {
+  version: '2026.1',
+  fields: {
+    name: {
+      rules: [
+        { selector: 'h1[data-attrid="title"]' },
+        { selector: '[data-attrid="title"] span' },
+        { selector: 'h1.DUwDvf' },
+        { selector: 'h1.x3AX1-LfntMc-header-title-title' },
+        { selector: 'h1', confidence: 0.6 },
+        { selector: '.DUwDvf' },
+        { selector: '.SPZz6b h1' }
+      ],
+      process: ['text']
+    },
+    address: {
+      rules: [
+        { selector: '[data-item-id="address"] .Io6YTe' },
+        { selector: '[data-attrid="kc:/location/location:address"]' },
+        { selector: '.LrzXr', confidence: 0.7 },
+        { selector: '[data-value="Address"]' },
+        { selector: '.rogA2c .Io6YTe', confidence: 0.4 },
+        { selector: '.lI9IFe', confidence: 0.3 }
+      ],
+      process: ['text']
+    },
+    phone: {
+      rules: [
+        { selector: '[data-item-id*="phone"] .Io6YTe' },
+        { selector: '[data-attrid*="phone"]' },
+        { selector: 'span[dir="ltr"]', confidence: 0.3 },
+        { selector: '[data-value="Phone"]' },
+        { selector: '.rogA2c [data-item-id*="phone"]' },
+        { selector: 'a[href^="tel:"]' }
+      ],
+      process: ['text', 'phone']
+    },
+    website: {
+      rules: [
+        { selector: 'a[data-item-id*="authority"]', attribute: 'href' },
+        { selector: 'a[data-attrid*="website"]', attribute: 'href' },
+        { selector: 'a[href^="http"]:not([href*="google.com"])', attribute: 'href', confidence: 0.3 },
+        { selector: '[data-value="Website"] a', attribute: 'href' }
+      ],
+      process: ['externalUrl']
+    },
+    rating: {
+      rules: [
+        { selector: '[data-attrid="review-score"] span' },
+        { selector: '.lTi8oc' },
+        { selector: '[aria-label*="stars"]', confidence: 0.6 },
+        { selector: '.fontDisplayLarge', confidence: 0.5 }
+      ],
+      process: ['rating']
+    },
+    reviewCount: {
+      rules: [
+        { selector: '[data-attrid="review-score"] + span' },
+        { selector: '.lTi8oc + span' },
+        { selector: '[aria-label*="reviews"]', confidence: 0.7 }
+      ],
+      process: ['count']
+    },
+    category: {
+      rules: [
+        { selector: '[data-attrid="kc:/local:place_type"]' },
+        { selector: '.rogA2c .Io6YTe', confidence: 0.4 },
+        { selector: '[data-value="Category"]' },
+        { selector: '.lI9IFe', confidence: 0.3 }
+      ],
+      process: ['text']
+    },
+    hours: {
+      rules: [
+        { selector: '[data-item-id*="hours"]' },
+        { selector: '[data-attrid*="hours"]' },
+        { selector: '[data-value="Hours"]' },
+        { selector: '.rogA2c [data-item-id*="hours"]' }
+      ],
+      process: ['text']
+    },
+    hoursDetail: {
+      rules: [
+        // Row text runs day and hours together ("Monday9 AM–5 PM"), which parseOpeningHours() handles
+        { selector: 'table.eK4R0e tr', all: true, join: '; ' },
+        { selector: 'table.WgFkxc tr', all: true, join: '; ' },
+        { selector: '.t39EBf tr', all: true, join: '; ' },
+        { selector: '[data-item-id*="hours"] [aria-label]', attribute: 'aria-label' },
+        { selector: '[aria-label*="Monday"]', attribute: 'aria-label' }
+      ],
+      process: ['text']
+    },
+    description: {
+      rules: [
+        { selector: '.PYvSYb' },
+        { selector: '[aria-label^="About"] .PbZDve' },
+        { selector: '.WeS02d .PYvSYb' },
+        { selector: '[data-attrid="description"] span' }
+      ],
+      process: ['text']
+    },
+    priceLevel: {
+      rules: [
+        { selector: '[aria-label^="Price"]', attribute: 'aria-label' },
+        { selector: '.mgr77e [aria-label]', attribute: 'aria-label' },
+        { selector: '.mgr77e' },
+        { selector: '[data-attrid*="price"]' }
+      ],
+      process: ['priceLevel']
+    },
+    photos: {
+      rules: [
+        {
+          selector: 'button[jsaction*="heroHeaderImage"] img, img[src*="googleusercontent.com/p/"], img[src*="googleusercontent.com/gps-cs"]',
+          attribute: 'src',
+          all: true
+        }
+      ],
+      process: ['urlList']
+    },
+    placeId: {
+      rules: [
+        { selector: 'link[rel="canonical"]', attribute: 'href' },
+        { selector: 'meta[property="og:url"]', attribute: 'content' },
+        { selector: 'a[href*="!1s0x"]', attribute: 'href' },
+        { selector: 'a[href*="ChIJ"]', attribute: 'href' }
+      ],
+      process: ['placeId']
+    }
+  }
+};
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BusinessData, ExportOptions } from '@/types';
+import { SheetsClient, exportToSheet } from '@/lib/sheets-export';
+
+// In-memory spreadsheet speaking the A1 ranges exportToSheet sends
+class FakeSheetsClient implements SheetsClient {
+  tabs = new Map<string, { sheetId: number; rows: unknown[][] }>();
+
+  async listSheets() {
+    return Array.from(this.tabs.entries()).map(([title, tab]) => ({ sheetId: tab.sheetId, title }));
+  }
+
+  async addSheet(_spreadsheetId: string, title: string) {
+    const sheetId = this.tabs.size + 100;
+    this.tabs.set(title, { sheetId, rows: [] });
+    return sheetId;
+  }
+
+  async getValues(_spreadsheetId: string, range: string) {
+    return this.tab(range).rows.map(row => [...row]);
+  }
+
+  async updateValues(_spreadsheetId: string, data: { range: string; values: unknown[][] }[]) {
+    data.forEach(({ range, values }) => {
+      const startRow = parseInt(range.match(/!A(\d+)/)![1]);
+      values.forEach((row, offset) => {
+        this.tab(range).rows[startRow - 1 + offset] = row;
+      });
+    });
+  }
+
+  async appendValues(_spreadsheetId: string, range: string, values: unknown[][]) {
+    this.tab(range).rows.push(...values);
+  }
+
+  private tab(range: string) {
+    const title = range.split('!')[0].slice(1, -1).replace(/''/g, "'");
+    const tab = this.tabs.get(title);
+    if (!tab) throw new Error(`No tab ${title}`);
+    return tab;
+  }
+}
+
+const business = (id: string, name: string, rating?: number): BusinessData => ({
+  id,
+  name,
+  address: `${id} Main St`,
+  rating,
+  scrapedAt: new Date('2026-01-01T00:00:00Z')
+});
+
+const options = (selectedFields: string[]): ExportOptions => ({ format: 'csv', includePhotos: false, selectedFields });
+const config = { spreadsheetId: 'sheet-1', sheetName: "Joe's Leads" };
+
+test('creates the tab, then updates matching rows and appends new ones', async () => {
+  const client = new FakeSheetsClient();
+
+  const first = await exportToSheet([business('a', 'Alpha'), business('b', 'Beta')], config, options(['name']), client);
+  assert.equal(first.createdSheet, true);
+  assert.equal(first.appended, 2);
+  assert.equal(first.updated, 0);
+  assert.equal(first.sheetUrl, 'https://docs.google.com/spreadsheets/d/sheet-1/edit#gid=100');
+  assert.deepEqual(client.tabs.get("Joe's Leads")!.rows, [
+    ['Business ID', 'Business Name'],
+    ['a', 'Alpha'],
+    ['b', 'Beta']
+  ]);
+
+  // Beta renamed, Gamma new, and a Rating column the tab doesn't have yet
+  const second = await exportToSheet(
+    [business('b', 'Beta Bakery', 4.5), business('c', 'Gamma', 3)],
+    config,
+    options(['name', 'rating']),
+    client
+  );
+  assert.equal(second.createdSheet, false);
+  assert.equal(second.updated, 1);
+  assert.equal(second.appended, 1);
+  assert.deepEqual(client.tabs.get("Joe's Leads")!.rows, [
+    ['Business ID', 'Business Name', 'Rating'],
+    ['a', 'Alpha'],
+    ['b', 'Beta Bakery', 4.5],
+    ['c', 'Gamma', 3]
+  ]);
+});
+
+test('refuses a tab without a Business ID column', async () => {
+  const client = new FakeSheetsClient();
+  await client.addSheet('sheet-1', 'Notes');
+  await client.appendValues('sheet-1', "'Notes'!A1", [['Name', 'Comment']]);
+
+  await assert.rejects(
+    exportToSheet([business('a', 'Alpha')], { spreadsheetId: 'sheet-1', sheetName: 'Notes' }, options(['name']), client),
+    /no "Business ID" column/
+  );
+});
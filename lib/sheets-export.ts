@@ -0,0 +1,218 @@
+import { google, sheets_v4 } from 'googleapis';
+import { BusinessData, ExportOptions, GoogleSheetsConfig } from '@/types';
+import { ExportColumn, ExportValue, resolveExportColumns } from '@/lib/export-columns';
+
+// The few Sheets calls the exporter makes. GoogleSheetsClient wraps googleapis;
+// tests can pass a fake, or a GoogleSheetsClient built with `rootUrl` pointing
+// at a local server
+export interface SheetsClient {
+  listSheets(spreadsheetId: string): Promise<{ sheetId: number; title: string }[]>;
+  addSheet(spreadsheetId: string, title: string): Promise<number>;
+  getValues(spreadsheetId: string, range: string): Promise<unknown[][]>;
+  updateValues(spreadsheetId: string, data: { range: string; values: unknown[][] }[]): Promise<void>;
+  appendValues(spreadsheetId: string, range: string, values: unknown[][]): Promise<void>;
+}
+
+export interface SheetsExportResult {
+  spreadsheetId: string;
+  sheetName: string;
+  sheetUrl: string;
+  createdSheet: boolean;
+  updated: number;
+  appended: number;
+}
+
+const ID_HEADER = 'Business ID';
+
+export class GoogleSheetsClient implements SheetsClient {
+  constructor(private sheets: sheets_v4.Sheets) {}
+
+  async listSheets(spreadsheetId: string) {
+    const response = await this.sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: 'sheets.properties(sheetId,title)'
+    });
+    return (response.data.sheets || []).map(sheet => ({
+      sheetId: sheet.properties?.sheetId || 0,
+      title: sheet.properties?.title || ''
+    }));
+  }
+
+  async addSheet(spreadsheetId: string, title: string) {
+    const response = await this.sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: { requests: [{ addSheet: { properties: { title } } }] }
+    });
+    return response.data.replies?.[0]?.addSheet?.properties?.sheetId || 0;
+  }
+
+  async getValues(spreadsheetId: string, range: string) {
+    const response = await this.sheets.spreadsheets.values.get({ spreadsheetId, range });
+    return response.data.values || [];
+  }
+
+  async updateValues(spreadsheetId: string, data: { range: string; values: unknown[][] }[]) {
+    await this.sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: { valueInputOption: 'RAW', data }
+    });
+  }
+
+  async appendValues(spreadsheetId: string, range: string, values: unknown[][]) {
+    await this.sheets.spreadsheets.values.append({
+      spreadsheetId,
+      range,
+      valueInputOption: 'RAW',
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: { values }
+    });
+  }
+}
+
+export function hasSheetsCredentials(): boolean {
+  return Boolean(process.env.GOOGLE_CLIENT_EMAIL && process.env.GOOGLE_PRIVATE_KEY);
+}
+
+// Service account from GOOGLE_CLIENT_EMAIL / GOOGLE_PRIVATE_KEY. The key usually
+// arrives with literal \n sequences from .env files
+export function createSheetsClientFromEnv(): SheetsClient {
+  if (!hasSheetsCredentials()) {
+    throw new Error('Google Sheets export needs GOOGLE_CLIENT_EMAIL and GOOGLE_PRIVATE_KEY');
+  }
+
+  const auth = new google.auth.JWT({
+    email: process.env.GOOGLE_CLIENT_EMAIL,
+    key: process.env.GOOGLE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+    scopes: ['https://www.googleapis.com/auth/spreadsheets']
+  });
+
+  return new GoogleSheetsClient(google.sheets({ version: 'v4', auth }));
+}
+
+let sheetsClient: SheetsClient | null = null;
+
+export function getSheetsClient(): SheetsClient {
+  if (!sheetsClient) {
+    sheetsClient = createSheetsClientFromEnv();
+  }
+  return sheetsClient;
+}
+
+export function setSheetsClient(client: SheetsClient | null): void {
+  sheetsClient = client;
+}
+
+export function sheetUrl(spreadsheetId: string, sheetId: number): string {
+  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit#gid=${sheetId}`;
+}
+
+// A1 range covering a whole tab; titles are quoted so spaces and quotes are safe
+const tabRange = (title: string): string => `'${title.replace(/'/g, "''")}'`;
+
+// Column letters for a 0-based index: 0 -> A, 26 -> AA
+const columnLetter = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+// RAW input keeps text as typed, so a name starting with "=" is not run as a formula
+const toSheetValue = (value: ExportValue): string | number | boolean => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return value.text;
+  return value;
+};
+
+// Write the businesses to the `sheetName` tab, creating it when missing. Rows are
+// matched on the Business ID column, so exporting again updates them in place;
+// columns the tab doesn't have yet are added after its last column
+export async function exportToSheet(
+  data: BusinessData[],
+  config: GoogleSheetsConfig & { spreadsheetId: string },
+  options: ExportOptions,
+  client: SheetsClient = getSheetsClient()
+): Promise<SheetsExportResult> {
+  const { spreadsheetId, sheetName } = config;
+  const columns: ExportColumn[] = [
+    { header: ID_HEADER, width: 28, value: business => business.id },
+    ...resolveExportColumns(options).filter(column => column.header !== ID_HEADER)
+  ];
+
+  const sheets = await client.listSheets(spreadsheetId);
+  let sheet = sheets.find(candidate => candidate.title === sheetName);
+  const createdSheet = !sheet;
+  if (!sheet) {
+    sheet = { sheetId: await client.addSheet(spreadsheetId, sheetName), title: sheetName };
+    console.log(`📊 Created sheet "${sheetName}" in ${spreadsheetId}`);
+  }
+
+  const existing = createdSheet ? [] : await client.getValues(spreadsheetId, tabRange(sheetName));
+  const header = existing.length > 0 ? existing[0].map(cell => String(cell ?? '')) : [];
+  if (header.length > 0 && !header.includes(ID_HEADER)) {
+    throw new Error(`Sheet "${sheetName}" has no "${ID_HEADER}" column to match rows on; use another sheet name`);
+  }
+
+  const newHeaders = columns.map(column => column.header).filter(title => !header.includes(title));
+  const fullHeader = [...header, ...newHeaders];
+  const idColumn = fullHeader.indexOf(ID_HEADER);
+
+  // Row number (1-based, as in A1 notation) of every business already in the tab
+  const rowById = new Map<string, number>();
+  existing.slice(1).forEach((row, index) => {
+    const id = String(row[idColumn] ?? '');
+    if (id && !rowById.has(id)) rowById.set(id, index + 2);
+  });
+
+  const buildRow = (business: BusinessData, previous: unknown[] = []): unknown[] => {
+    const row = fullHeader.map((_, index) => previous[index] ?? '');
+    columns.forEach(column => {
+      row[fullHeader.indexOf(column.header)] = toSheetValue(column.value(business));
+    });
+    return row;
+  };
+
+  const lastColumn = columnLetter(fullHeader.length - 1);
+  const updates: { range: string; values: unknown[][] }[] = [];
+  if (newHeaders.length > 0) {
+    updates.push({ range: `${tabRange(sheetName)}!A1:${lastColumn}1`, values: [fullHeader] });
+  }
+
+  const appended: unknown[][] = [];
+  const seen = new Set<string>();
+  data.forEach(business => {
+    if (seen.has(business.id)) return;
+    seen.add(business.id);
+
+    const rowNumber = rowById.get(business.id);
+    if (rowNumber) {
+      updates.push({
+        range: `${tabRange(sheetName)}!A${rowNumber}:${lastColumn}${rowNumber}`,
+        values: [buildRow(business, existing[rowNumber - 1])]
+      });
+    } else {
+      appended.push(buildRow(business));
+    }
+  });
+
+  if (updates.length > 0) {
+    await client.updateValues(spreadsheetId, updates);
+  }
+  if (appended.length > 0) {
+    await client.appendValues(spreadsheetId, `${tabRange(sheetName)}!A1`, appended);
+  }
+
+  const updated = updates.length - (newHeaders.length > 0 ? 1 : 0);
+  console.log(`📊 Sheets export to "${sheetName}": ${updated} updated, ${appended.length} appended`);
+
+  return {
+    spreadsheetId,
+    sheetName,
+    sheetUrl: sheetUrl(spreadsheetId, sheet.sheetId),
+    createdSheet,
+    updated,
+    appended: appended.length
+  };
+}
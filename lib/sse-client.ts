@@ -1,4 +1,4 @@
-import { SearchParams, ScrapingProgress, BusinessData } from '@/types';
+import { SearchParams, ScrapingProgress, BusinessData, SearchSummary, CategoryProgress } from '@/types';
 
 interface SSEProgressEvent {
   type: 'progress';
@@ -8,6 +8,12 @@ interface SSEProgressEvent {
   totalFound: number;
   scraped: number;
   errors: string[];
+  cacheHits?: number;
+  cacheMisses?: number;
+  searchCacheAgeMs?: number;
+  cellsDone?: number;
+  cellsRemaining?: number;
+  categories?: CategoryProgress[];
 }
 
 interface SSECompleteEvent {
@@ -16,6 +22,7 @@ interface SSECompleteEvent {
   businesses: BusinessData[];
   count: number;
   searchParams: SearchParams;
+  summary?: SearchSummary;
   warnings?: string[];
 }
 
@@ -25,32 +32,74 @@ interface SSEErrorEvent {
   message: string;
 }
 
-export type SSEEvent = SSEProgressEvent | SSECompleteEvent | SSEErrorEvent;
+interface SSEJobEvent {
+  type: 'job';
+  jobId: string;
+}
+
+export interface SSEControlEvent {
+  type: 'paused' | 'resumed' | 'cancelled';
+  jobId: string;
+  state: string;
+  scraped: number;
+  total: number;
+}
+
+export type SSEEvent = SSEProgressEvent | SSECompleteEvent | SSEErrorEvent | SSEJobEvent | SSEControlEvent;
 
 export class SSEScrapingClient {
   private abortController: AbortController | null = null;
+  private jobId: string | null = null;
+
+  getJobId(): string | null {
+    return this.jobId;
+  }
 
   async startScraping(
     params: SearchParams,
     onProgress: (progress: ScrapingProgress) => void,
-    onComplete: (businesses: BusinessData[], warnings?: string[]) => void,
-    onError: (error: string, message: string) => void
+    onComplete: (businesses: BusinessData[], warnings?: string[], summary?: SearchSummary) => void,
+    onError: (error: string, message: string) => void,
+    onControl?: (event: SSEControlEvent) => void
+  ) {
+    return this.streamJob('/api/scrape', params, onProgress, onComplete, onError, onControl);
+  }
+
+  // Continue a job that was interrupted (e.g. by a server restart) from its last checkpoint
+  async resumeScraping(
+    jobId: string,
+    onProgress: (progress: ScrapingProgress) => void,
+    onComplete: (businesses: BusinessData[], warnings?: string[], summary?: SearchSummary) => void,
+    onError: (error: string, message: string) => void,
+    onControl?: (event: SSEControlEvent) => void
+  ) {
+    return this.streamJob('/api/scrape/resume', { jobId }, onProgress, onComplete, onError, onControl);
+  }
+
+  private async streamJob(
+    url: string,
+    body: unknown,
+    onProgress: (progress: ScrapingProgress) => void,
+    onComplete: (businesses: BusinessData[], warnings?: string[], summary?: SearchSummary) => void,
+    onError: (error: string, message: string) => void,
+    onControl?: (event: SSEControlEvent) => void
   ) {
     // Abort any existing request
     if (this.abortController) {
-      this.abortController.abort();
+      this.abort();
     }
 
     this.abortController = new AbortController();
+    this.jobId = null;
 
     try {
-      const response = await fetch('/api/scrape', {
+      const response = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Accept': 'text/event-stream',
         },
-        body: JSON.stringify(params),
+        body: JSON.stringify(body),
         signal: this.abortController.signal,
       });
 
@@ -92,6 +141,16 @@ export class SSEScrapingClient {
                 const eventData: SSEEvent = JSON.parse(line.slice(6));
                 
                 switch (eventData.type) {
+                  case 'job':
+                    this.jobId = eventData.jobId;
+                    break;
+
+                  case 'paused':
+                  case 'resumed':
+                  case 'cancelled':
+                    onControl?.(eventData);
+                    break;
+
                   case 'progress':
                     onProgress({
                       status: eventData.status as any,
@@ -100,14 +159,22 @@ export class SSEScrapingClient {
                       totalFound: eventData.totalFound,
                       scraped: eventData.scraped,
                       errors: eventData.errors,
+                      cacheHits: eventData.cacheHits,
+                      cacheMisses: eventData.cacheMisses,
+                      searchCacheAgeMs: eventData.searchCacheAgeMs,
+                      cellsDone: eventData.cellsDone,
+                      cellsRemaining: eventData.cellsRemaining,
+                      categories: eventData.categories,
                     });
                     break;
                     
                   case 'complete':
-                    onComplete(eventData.businesses, eventData.warnings);
+                    this.jobId = null;
+                    onComplete(eventData.businesses, eventData.warnings, eventData.summary);
                     break;
                     
                   case 'error':
+                    this.jobId = null;
                     onError(eventData.error, eventData.message);
                     break;
                 }
@@ -134,6 +201,18 @@ export class SSEScrapingClient {
   }
 
   abort() {
+    // Tell the server to cancel the job too; a dropped connection alone
+    // is not always propagated through proxies
+    if (this.jobId) {
+      fetch('/api/scrape/control', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'cancel', jobId: this.jobId }),
+        keepalive: true,
+      }).catch(() => {});
+      this.jobId = null;
+    }
+
     if (this.abortController) {
       this.abortController.abort();
       this.abortController = null;
@@ -0,0 +1,85 @@
+// Replays the saved Maps pages in fixtures/extraction through the scraper's
+// extraction code and fails when any field differs from the fixture. Needs a
+// local browser (puppeteer's Chrome, PUPPETEER_EXECUTABLE_PATH or the bundled
+// serverless Chromium), no network and no dev server. When no browser starts
+// the fixtures are skipped, unless EXTRACTION_REQUIRE_BROWSER=true.
+//
+//   npm run test:extraction
+
+import { GoogleMapsScraper } from '@/lib/scraper';
+import { runExtractionFixtures } from '@/lib/extraction-fixtures';
+import { DEFAULT_SELECTOR_PROFILE } from '@/lib/selector-profile';
+import { BrowserProvider, ServerlessChromiumProvider, createBrowserProviderFromEnv } from '@/lib/browser-provider';
+
+// Without an explicit BROWSER_PROVIDER or BROWSER_WS_ENDPOINT, fall back to the
+// bundled Chromium when local Chrome is missing or can't start
+function browserCandidates(): BrowserProvider[] {
+  const configured = createBrowserProviderFromEnv();
+  const explicit = process.env.BROWSER_PROVIDER || process.env.BROWSER_WS_ENDPOINT;
+  return explicit || configured instanceof ServerlessChromiumProvider
+    ? [configured]
+    : [configured, new ServerlessChromiumProvider()];
+}
+
+async function startScraper(): Promise<GoogleMapsScraper | null> {
+  for (const browserProvider of browserCandidates()) {
+    const scraper = new GoogleMapsScraper(undefined, { browserProvider });
+    try {
+      await scraper.initialize();
+      return scraper;
+    } catch (error) {
+      console.log(`⚠️ ${browserProvider.name} browser unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  return null;
+}
+
+async function main(): Promise<number> {
+  const scraper = await startScraper();
+
+  if (!scraper) {
+    if (process.env.EXTRACTION_REQUIRE_BROWSER === 'true') {
+      console.error('❌ No browser could be started for the extraction fixtures');
+      return 1;
+    }
+    console.log('⏭️ Skipping extraction fixtures: no browser could be started. Install Chrome or set PUPPETEER_EXECUTABLE_PATH to run them');
+    return 0;
+  }
+
+  try {
+    const results = await runExtractionFixtures(scraper);
+
+    if (results.length === 0) {
+      console.error('❌ No extraction fixtures found');
+      return 1;
+    }
+
+    results.forEach(result => {
+      console.log(`${result.passed ? '✅' : '❌'} ${result.kind} ${result.name} (${result.source || 'unknown source'})`);
+      if (result.error) {
+        console.log(`   ${result.error}`);
+      }
+      result.mismatches.forEach(mismatch => {
+        console.log(`   ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`);
+      });
+    });
+
+    if (!results.some(result => result.source === 'maps')) {
+      console.log('\n⚠️ Every fixture is synthetic, so selector drift on Google Maps itself is not covered');
+    }
+
+    const failed = results.filter(result => !result.passed).length;
+    console.log(`\nProfile ${DEFAULT_SELECTOR_PROFILE.version}: ${results.length - failed}/${results.length} fixtures passed`);
+    return failed > 0 ? 1 : 0;
+  } finally {
+    await scraper.close();
+  }
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('❌ Extraction harness error:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,334 @@
+#!/usr/bin/env node
+// Offline stand-in for Google Maps. Serves a results page whose feed grows as it
+// is scrolled and place pages that match DEFAULT_SELECTOR_PROFILE, so a full
+// scrape (scrolling, batching, cancellation) runs without network access.
+//
+//   npm run mock:maps
+//   MAPS_ORIGIN=http://localhost:4010 ENABLE_REAL_SCRAPING=true npm run dev
+//
+// Everything is derived from the URL, so results are stable across restarts.
+
+const http = require('http');
+
+const PORT = parseInt(process.env.MOCK_MAPS_PORT || '4010');
+const RESULT_COUNT = parseInt(process.env.MOCK_MAPS_RESULTS || '60');
+const INITIAL_RESULTS = 20;
+const RESULTS_PER_SCROLL = 10;
+// Delay before each page response; raise it to have time to pause or cancel a job
+const RESPONSE_DELAY_MS = parseInt(process.env.MOCK_MAPS_DELAY_MS || '200');
+const [CENTER_LAT, CENTER_LNG] = (process.env.MOCK_MAPS_CENTER || '40.7128,-74.0060').split(',').map(Number);
+// Results are scattered up to this far from the search center
+const SPREAD_METERS = parseInt(process.env.MOCK_MAPS_SPREAD_METERS || '3000');
+
+const STREETS = ['Main St', 'Oak Ave', 'Maple Dr', 'Park Blvd', 'Cedar Ln', 'Elm St', 'Broadway', 'Lake Rd'];
+const DESCRIPTORS = ['Corner', 'Golden', 'Urban', 'Heritage', 'Riverside', 'Sunset', 'Harbor', 'Hilltop', 'Central', 'Family'];
+const PRICE_LABELS = ['Inexpensive', 'Moderate', 'Expensive', 'Very expensive'];
+const WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+// Reviews the panel holds at most, loaded 10 per scroll
+const MAX_REVIEWS = parseInt(process.env.MOCK_MAPS_REVIEWS || '50');
+const REVIEWERS = ['Alex Morgan', 'Priya Shah', 'Jonas Weber', 'María López', 'Chen Wei', 'Sam Taylor', 'Fatima Zahra', 'Luca Rossi'];
+const ATTRIBUTES = ['wheelchair-accessible entrance', 'outdoor seating', 'delivery', 'takeout', 'Wi-Fi', 'credit cards', 'restroom', 'parking'];
+const REVIEW_AGES = ['a day ago', '5 days ago', 'a week ago', '3 weeks ago', 'a month ago', '4 months ago', 'a year ago', '2 years ago'];
+const REVIEW_TEXTS = [
+  ['en', 'Friendly staff and quick service. The place was clean and easy to find, and we will definitely be back next time we are in the area.'],
+  ['en', 'Decent overall, but it got very busy around lunch and we waited a while. Prices are fair for what you get.'],
+  ['fr', 'Accueil chaleureux et très bon rapport qualité-prix. Je recommande sans hésiter à tous mes amis.'],
+  ['es', 'Muy buena atención, aunque el local es un poco pequeño. Volveremos pronto.'],
+  ['de', 'Sehr freundliches Personal und schnelle Bedienung. Gerne wieder!']
+];
+
+// FNV-1a, good enough to spread mock values deterministically
+function hash(text) {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193) >>> 0;
+  }
+  return value;
+}
+
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function titleCase(text) {
+  return text.replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+// "/maps/search/coffee near Austin" or "/maps/search/coffee/@30.26,-97.74,14z"
+function parseSearchPath(pathname) {
+  const segments = pathname.split('/').slice(3).map(segment => decodeURIComponent(segment.replace(/\+/g, ' ')));
+  const query = segments[0] || 'business';
+  const viewport = (segments[1] || '').match(/^@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+  const [category, location] = query.split(/\s+near\s+/i);
+
+  if (viewport) {
+    return { category, lat: parseFloat(viewport[1]), lng: parseFloat(viewport[2]) };
+  }
+
+  // Text searches get a center nudged per location so different cities don't overlap
+  const seed = hash((location || '').toLowerCase());
+  return {
+    category,
+    lat: CENTER_LAT + ((seed % 1000) / 1000 - 0.5) * 0.5,
+    lng: CENTER_LNG + (((seed >>> 10) % 1000) / 1000 - 0.5) * 0.5
+  };
+}
+
+function buildResults(search, origin) {
+  const category = titleCase(search.category.trim() || 'business');
+  const seed = hash(`${search.category}|${search.lat.toFixed(3)}|${search.lng.toFixed(3)}`);
+  const metersPerDegreeLat = 111320;
+  const metersPerDegreeLng = 111320 * Math.cos((search.lat * Math.PI) / 180);
+
+  return Array.from({ length: RESULT_COUNT }, (_, index) => {
+    const itemSeed = hash(`${seed}:${index}`);
+    const distance = ((itemSeed % 1000) / 1000) * SPREAD_METERS;
+    const bearing = (((itemSeed >>> 10) % 360) * Math.PI) / 180;
+    const lat = search.lat + (distance * Math.cos(bearing)) / metersPerDegreeLat;
+    const lng = search.lng + (distance * Math.sin(bearing)) / metersPerDegreeLng;
+    const name = `${DESCRIPTORS[itemSeed % DESCRIPTORS.length]} ${category} ${index + 1}`;
+    const featureId = `0x${seed.toString(16)}:0x${itemSeed.toString(16)}${index.toString(16)}`;
+    const href = `${origin}/maps/place/${encodeURIComponent(name).replace(/%20/g, '+')}` +
+      `/data=!4m7!3m6!1s${featureId}!8m2!3d${lat.toFixed(7)}!4d${lng.toFixed(7)}!16s`;
+
+    return { name, href };
+  });
+}
+
+function renderResultsPage(search, origin) {
+  const results = buildResults(search, origin);
+
+  // The feed starts with INITIAL_RESULTS items and appends more whenever it is
+  // scrolled near the bottom, like the real results pane
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(search.category)} - Mock Maps</title>
+  <style>
+    body { margin: 0; font-family: sans-serif; }
+    [role="main"] { height: 100vh; overflow-y: auto; width: 420px; }
+    [role="article"] { height: 120px; border-bottom: 1px solid #ddd; padding: 8px; }
+  </style>
+</head>
+<body>
+  <div role="main" class="m6QErb">
+    <div role="feed" aria-label="Results for ${escapeHtml(search.category)}"></div>
+  </div>
+  <script>
+    const results = ${JSON.stringify(results).replace(/</g, '\\u003c')};
+    const main = document.querySelector('[role="main"]');
+    const feed = document.querySelector('[role="feed"]');
+    let shown = 0;
+    let loading = false;
+
+    function append(count) {
+      results.slice(shown, shown + count).forEach(result => {
+        const article = document.createElement('div');
+        article.setAttribute('role', 'article');
+        const link = document.createElement('a');
+        link.className = 'hfpxzc';
+        link.href = result.href;
+        link.setAttribute('aria-label', result.name);
+        link.textContent = result.name;
+        article.appendChild(link);
+        feed.appendChild(article);
+      });
+      shown = Math.min(results.length, shown + count);
+
+      if (shown >= results.length && !document.querySelector('.HlvSq')) {
+        const end = document.createElement('span');
+        end.className = 'HlvSq';
+        end.textContent = "You've reached the end of the list.";
+        feed.appendChild(end);
+      }
+    }
+
+    main.addEventListener('scroll', () => {
+      if (loading || shown >= results.length) return;
+      if (main.scrollTop + main.clientHeight < main.scrollHeight - 200) return;
+      loading = true;
+      setTimeout(() => {
+        append(${RESULTS_PER_SCROLL});
+        loading = false;
+      }, 400);
+    });
+
+    append(${INITIAL_RESULTS});
+  </script>
+</body>
+</html>`;
+}
+
+function renderPlacePage(pathname, origin) {
+  const name = decodeURIComponent((pathname.split('/')[3] || 'Unknown place').replace(/\+/g, ' '));
+  const featureMatch = pathname.match(/!1s(0x[0-9a-f]+:0x[0-9a-f]+)/i);
+  const seed = hash(featureMatch ? featureMatch[1] : name);
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  // Names are "<descriptor> <category> <n>"
+  const category = name.split(' ').slice(1, -1).join(' ') || 'Business';
+
+  const rating = (3 + (seed % 21) / 10).toFixed(1);
+  const reviewCount = 5 + (seed % 2400);
+  const phone = `(212) 555-${String(1000 + (seed % 9000))}`;
+  const address = `${100 + (seed % 900)} ${STREETS[seed % STREETS.length]}, New York, NY 100${String(seed % 100).padStart(2, '0')}`;
+  const opens = 6 + (seed % 5);
+  const closes = 5 + ((seed >>> 4) % 6);
+  const closedDay = WEEK[(seed >>> 8) % 7];
+  const hoursRows = WEEK.map(day => {
+    const hours = day === closedDay ? 'Closed' : `${opens} AM–${closes} PM`;
+    return `<tr><td>${day}</td><td>${hours}</td></tr>`;
+  }).join('');
+  const canonical = `${origin}${pathname}`;
+  // Busyness rises towards midday and the evening while the place is open
+  const popularDays = WEEK.map(day => {
+    const bars = Array.from({ length: closes + 12 - opens }, (_, offset) => {
+      const hour = opens + offset;
+      const percent = day === closedDay ? 0 : Math.min(100, 15 + ((hash(`${seed}:${day}:${hour}`) % 30) + (hour >= 11 && hour <= 13 ? 40 : hour >= 17 && hour <= 19 ? 30 : 0)));
+      const label = `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
+      return `<div role="img" style="height: ${percent}px" aria-label="Usually ${percent}% busy at ${label}."></div>`;
+    }).join('');
+    return `<div aria-label="Histogram showing popular times on ${day}s">${bars}</div>`;
+  }).join('');
+  const attributes = ATTRIBUTES.map((attribute, index) => {
+    const has = ((seed >>> index) & 1) === 1;
+    return `<li><span aria-label="${has ? 'Has' : 'No'} ${attribute}">${has ? '✓' : '✗'} ${attribute}</span></li>`;
+  }).join('');
+  const reviews = Array.from({ length: Math.min(reviewCount, MAX_REVIEWS) }, (_, index) => {
+    const reviewSeed = hash(`${seed}:review:${index}`);
+    const [language, text] = REVIEW_TEXTS[reviewSeed % REVIEW_TEXTS.length];
+    return {
+      id: `mock_${seed.toString(16)}_${index}`,
+      author: REVIEWERS[reviewSeed % REVIEWERS.length],
+      rating: 1 + (reviewSeed % 5),
+      age: REVIEW_AGES[(reviewSeed >>> 3) % REVIEW_AGES.length],
+      language,
+      text,
+      response: reviewSeed % 3 === 0 ? 'Thank you for the feedback, we hope to see you again soon!' : ''
+    };
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(name)} - Mock Maps</title>
+  <link rel="canonical" href="${escapeHtml(canonical)}">
+</head>
+<body>
+  <div role="main">
+    <button jsaction="pane.heroHeaderImage.click"><img src="${origin}/mock/photo/${seed.toString(16)}.svg" alt=""></button>
+    <h1 class="DUwDvf">${escapeHtml(name)}</h1>
+    <div data-attrid="review-score"><span>${rating}</span></div>
+    <span aria-label="${reviewCount} reviews">(${reviewCount.toLocaleString('en-US')})</span>
+    <span aria-label="Price: ${PRICE_LABELS[seed % PRICE_LABELS.length]}">${'$'.repeat((seed % 4) + 1)}</span>
+    <div data-attrid="kc:/local:place_type">${escapeHtml(category)}</div>
+    <div class="PYvSYb">${escapeHtml(`${name} is a neighbourhood ${category.toLowerCase()} served by the mock Maps server.`)}</div>
+    <button data-item-id="address"><div class="Io6YTe">${escapeHtml(address)}</div></button>
+    <button data-item-id="phone:tel:2125550000"><div class="Io6YTe">${phone}</div></button>
+    <a data-item-id="authority" href="https://${slug}.example.com/">${slug}.example.com</a>
+    <div data-item-id="hours"><span>Open · Closes ${closes} PM</span></div>
+    <table class="eK4R0e"><tbody>${hoursRows}</tbody></table>
+    <div class="C7xf8b">${popularDays}</div>
+    <button role="tab" aria-label="About ${escapeHtml(name)}">About</button>
+    <div class="iP2t7d"><ul>${attributes}</ul></div>
+    <button role="tab" aria-label="Reviews for ${escapeHtml(name)}">Reviews</button>
+    <div class="m6QErb DxyBCb" style="height: 400px; overflow-y: auto; display: none"></div>
+  </div>
+  <script>
+    const reviews = ${JSON.stringify(reviews).replace(/</g, '\\u003c')};
+    const panel = document.querySelector('.DxyBCb');
+    let shown = 0;
+    let loading = false;
+
+    function escapeText(text) {
+      const span = document.createElement('span');
+      span.textContent = text;
+      return span.innerHTML;
+    }
+
+    // Texts are truncated behind a "More" button, like on Maps
+    function append(count) {
+      reviews.slice(shown, shown + count).forEach(review => {
+        const item = document.createElement('div');
+        item.className = 'jftiEf';
+        item.style.minHeight = '120px';
+        item.setAttribute('data-review-id', review.id);
+        item.setAttribute('aria-label', review.author);
+        item.innerHTML =
+          '<div class="d4r55">' + escapeText(review.author) + '</div>' +
+          '<span class="kvMYJc" role="img" aria-label="' + review.rating + ' stars"></span>' +
+          '<span class="rsqaWe">' + review.age + '</span>' +
+          '<div class="MyEned"><span class="wiI7pd" lang="' + review.language + '">' + escapeText(review.text.slice(0, 40)) + '…</span>' +
+          '<button class="w8nwRe" aria-label="See more">More</button></div>' +
+          (review.response ? '<div class="CDe7pd"><span class="DZSIDd">' + review.age + '</span><div class="wiI7pd">' + escapeText(review.response) + '</div></div>' : '');
+        item.querySelector('.w8nwRe').addEventListener('click', event => {
+          item.querySelector('.MyEned .wiI7pd').textContent = review.text;
+          event.target.remove();
+        });
+        panel.appendChild(item);
+      });
+      shown = Math.min(shown + count, reviews.length);
+    }
+
+    document.querySelector('[role="tab"]').addEventListener('click', () => {
+      panel.style.display = 'block';
+      if (shown === 0) setTimeout(() => append(10), 150);
+    });
+    panel.addEventListener('scroll', () => {
+      if (loading || shown >= reviews.length) return;
+      if (panel.scrollTop + panel.clientHeight < panel.scrollHeight - 200) return;
+      loading = true;
+      setTimeout(() => {
+        append(10);
+        loading = false;
+      }, 400);
+    });
+  </script>
+</body>
+</html>`;
+}
+
+function renderPhoto(id) {
+  const hue = hash(id) % 360;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300"><rect width="400" height="300" fill="hsl(${hue},60%,60%)"/></svg>`;
+}
+
+const server = http.createServer((req, res) => {
+  const origin = `http://${req.headers.host || `localhost:${PORT}`}`;
+  const url = new URL(req.url || '/', origin);
+
+  const send = (status, contentType, body) => {
+    setTimeout(() => {
+      res.writeHead(status, { 'Content-Type': contentType });
+      res.end(body);
+    }, contentType.startsWith('text/html') ? RESPONSE_DELAY_MS : 0);
+  };
+
+  if (url.pathname === '/maps' || url.pathname === '/maps/') {
+    return send(200, 'text/html; charset=utf-8', '<!DOCTYPE html><html><head><title>Mock Maps</title></head><body><div role="main"></div></body></html>');
+  }
+  if (url.pathname.startsWith('/maps/search/')) {
+    const search = parseSearchPath(url.pathname);
+    console.log(`🔍 Search: ${search.category} @ ${search.lat.toFixed(4)},${search.lng.toFixed(4)}`);
+    return send(200, 'text/html; charset=utf-8', renderResultsPage(search, origin));
+  }
+  if (url.pathname.startsWith('/maps/place/')) {
+    return send(200, 'text/html; charset=utf-8', renderPlacePage(url.pathname, origin));
+  }
+
+  const photo = url.pathname.match(/^\/mock\/photo\/(\w+)\.svg$/);
+  if (photo) {
+    return send(200, 'image/svg+xml', renderPhoto(photo[1]));
+  }
+
+  send(404, 'text/html; charset=utf-8', '<!DOCTYPE html><html><head><title>404 Not Found</title></head><body></body></html>');
+});
+
+server.listen(PORT, () => {
+  console.log(`🗺️ Mock Maps server listening on http://localhost:${PORT}`);
+  console.log(`   Set MAPS_ORIGIN=http://localhost:${PORT} to scrape against it`);
+});
@@ -2,12 +2,21 @@ export interface BusinessData {
   id: string;
   name: string;
   address: string;
+  // Parsed from `address`, which stays as scraped
+  addressComponents?: AddressComponents;
+  // As displayed on Maps; phoneDetails holds the normalized number
   phone?: string;
+  phoneDetails?: PhoneDetails;
   website?: string;
   rating?: number;
   reviewCount?: number;
   category?: string;
   hours?: string;
+  // Parsed from the hours table; `hours` keeps the raw text
+  openingHours?: OpeningHours;
+  popularTimes?: PopularTimes;
+  // "wheelchair_accessible_entrance" -> true, "outdoor_seating" -> false
+  attributes?: Record<string, boolean>;
   priceLevel?: string;
   coordinates?: {
     lat: number;
@@ -16,9 +25,126 @@ export interface BusinessData {
   placeId?: string;
   photos?: string[];
   description?: string;
+  // Selected categories whose search returned this business
+  matchedCategories?: string[];
+  // IDs of records collapsed into this one by deduplication
+  mergedIds?: string[];
+  extraction?: ExtractionReport;
+  quality?: DataQuality;
+  // Contact details found on the business website by the enrichment stage
+  emails?: string[];
+  socialProfiles?: SocialProfiles;
+  contactFormUrl?: string;
+  enrichment?: EnrichmentReport;
+  // Collected when SearchParams.includeReviews is set
+  reviews?: BusinessReview[];
   scrapedAt: Date;
 }
 
+export interface BusinessReview {
+  id: string;
+  // BusinessData.id of the reviewed place
+  businessId: string;
+  author: string;
+  rating?: number;
+  // As displayed ("3 months ago"); publishedAt is estimated from it at scrape time
+  date?: string;
+  publishedAt?: Date;
+  text?: string;
+  // BCP 47 tag from the review markup, when Maps provides one
+  language?: string;
+  ownerResponse?: OwnerResponse;
+}
+
+export interface OwnerResponse {
+  text: string;
+  date?: string;
+}
+
+export type SocialNetwork = 'facebook' | 'instagram' | 'linkedin' | 'x';
+
+export type SocialProfiles = Partial<Record<SocialNetwork, string>>;
+
+export interface EnrichmentReport {
+  crawledAt: Date;
+  pagesVisited: number;
+  // Pages skipped because robots.txt disallows them
+  pagesBlocked: number;
+  error?: string;
+}
+
+export interface AddressComponents {
+  street?: string;
+  city?: string;
+  postalCode?: string;
+  // State, province or prefecture as written in the address
+  region?: string;
+  // ISO 3166-1 alpha-2
+  country?: string;
+}
+
+// fixed-or-mobile: plans like US/CA that don't tell the two apart
+export type PhoneType = 'mobile' | 'landline' | 'fixed-or-mobile' | 'toll-free' | 'voip' | 'other';
+
+export interface PhoneDetails {
+  // Only set when the number is valid for its country
+  e164?: string;
+  // ISO 3166-1 alpha-2 country the number was parsed for
+  country?: string;
+  // Absent where the numbering plan doesn't distinguish (e.g. US/CA)
+  type?: PhoneType;
+  valid: boolean;
+}
+
+export interface ExtractionReport {
+  // Selector profile version the record was extracted with
+  profileVersion: string;
+  // Field name -> selector that supplied its value
+  matchedSelectors: Record<string, string>;
+}
+
+export type QualityFlag =
+  // Value came from a catch-all fallback selector
+  | 'loose-selector'
+  | 'invalid-phone'
+  | 'invalid-url'
+  // Address and category hold the same text, so one of them is misread
+  | 'address-matches-category'
+  | 'missing';
+
+export interface FieldQuality {
+  // Selector that supplied the value; absent for values not read from the page
+  selector?: string;
+  // 0–1
+  confidence: number;
+  flags: QualityFlag[];
+}
+
+export interface DataQuality {
+  // 0–100, weighted over the core contact fields
+  score: number;
+  fields: Record<string, FieldQuality>;
+}
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+export interface OpeningInterval {
+  // 24-hour "HH:MM"; a close at or before the open time runs past midnight
+  open: string;
+  close: string;
+}
+
+export interface DayHours {
+  status: 'open' | 'closed' | 'open24h';
+  intervals: OpeningInterval[];
+}
+
+export type OpeningHours = Partial<Record<Weekday, DayHours>>;
+
+// Relative busyness 0–100 for each hour of the day (index 0 = midnight);
+// hours Maps shows no bar for are 0
+export type PopularTimes = Partial<Record<Weekday, number[]>>;
+
 export interface SearchParams {
   location: string;
   categories: string[];
@@ -26,6 +152,13 @@ export interface SearchParams {
   coordinates?: { lat: number; lng: number };
   maxResults: number;
   searchMode: 'preview' | 'full' | 'unlimited';
+  forceRefresh?: boolean;
+  areaSweep?: boolean;
+  // Crawl each business website for emails, social profiles and a contact form
+  enrichWebsites?: boolean;
+  // Open the reviews panel of each place and collect up to maxReviews reviews
+  includeReviews?: boolean;
+  maxReviews?: number;
 }
 
 export interface ScrapingProgress {
@@ -35,12 +168,65 @@ export interface ScrapingProgress {
   totalFound: number;
   scraped: number;
   errors: string[];
+  cacheHits?: number;
+  cacheMisses?: number;
+  searchCacheAgeMs?: number;
+  cellsDone?: number;
+  cellsRemaining?: number;
+  categories?: CategoryProgress[];
+}
+
+export interface CategoryProgress {
+  category: string;
+  found: number;
+  scraped: number;
+}
+
+export interface SweepCell {
+  id: string;
+  center: { lat: number; lng: number };
+  // Side length in meters
+  size: number;
+  // Search radius in meters that covers the whole cell
+  radius: number;
+  depth: number;
+}
+
+export interface SweepCellResult extends SweepCell {
+  found: number;
+  subdivided: boolean;
+}
+
+export interface SweepSummary {
+  cellsSearched: number;
+  cellsSkipped: number;
+  saturatedCells: SweepCellResult[];
+}
+
+export interface SearchSummary {
+  discardedOutOfRadius: number;
+  sweep?: SweepSummary;
 }
 
 export interface ExportOptions {
-  format: 'csv' | 'xlsx';
+  format: 'csv' | 'xlsx' | 'geojson' | 'kml' | 'gpx' | 'jsonl' | 'parquet';
   includePhotos: boolean;
   selectedFields: string[];
+  // One column per weekday with parsed opening hours
+  hoursByWeekday?: boolean;
+  // Street, city, postal code, region and country columns
+  addressComponents?: boolean;
+  // Reviews as a separate file (CSV) or sheet (XLSX), one row per review
+  reviews?: boolean;
+  // XLSX only: a sheet with the search parameters, export time and counts
+  searchMetadata?: boolean;
+  // XLSX only: a sheet with one row per category
+  categorySummary?: boolean;
+  // CSV only
+  delimiter?: ',' | ';' | '\t';
+  // 'utf-8-bom' prefixes a byte order mark so Excel detects UTF-8
+  encoding?: 'utf-8' | 'utf-8-bom';
+  includeHeader?: boolean;
 }
 
 export interface GoogleSheetsConfig {
@@ -60,6 +246,17 @@ export interface FilterOptions {
   minRating?: number;
   hasWebsite?: boolean;
   hasPhone?: boolean;
+  openNow?: boolean;
+  // Open on this weekday at this "HH:MM" time; ignored when openNow is set
+  openDay?: Weekday;
+  openTime?: string;
+  city?: string;
+  // Matches postal codes starting with this prefix
+  postalCode?: string;
+  // Records without a quality score are hidden while this is set
+  minQualityScore?: number;
+  // Attribute keys that must be true
+  attributes?: string[];
   sortBy: 'name' | 'rating' | 'reviewCount' | 'category' | 'distance';
   sortOrder: 'asc' | 'desc';
 } 
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { AddressComponents } from '@/types';
+import { countryFromName, inferCountryFromText } from '@/utils/countries';
+
+// How one comma-separated segment of an address holds the locality. Capture
+// group numbers per component; `cityFromPrevious` takes the city from the
+// segment before it ("Austin, TX 78701")
+interface LocalityFormat {
+  pattern: RegExp;
+  city?: number;
+  postalCode?: number;
+  region?: number;
+  cityFromPrevious?: boolean;
+}
+
+const US_FORMAT: LocalityFormat = { pattern: /^([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/, region: 1, postalCode: 2, cityFromPrevious: true };
+const CA_FORMAT: LocalityFormat = { pattern: /^([A-Z]{2})\s+([A-Z]\d[A-Z]\s?\d[A-Z]\d)$/i, region: 1, postalCode: 2, cityFromPrevious: true };
+const GB_FORMATS: LocalityFormat[] = [
+  { pattern: /^(.+?)\s+([A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2})$/i, city: 1, postalCode: 2 },
+  { pattern: /^([A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2})$/i, postalCode: 1, cityFromPrevious: true }
+];
+const IE_FORMAT: LocalityFormat = { pattern: /^(.+?)\s+([AC-FHKNPRTV-Y]\d{2}|D6W)\s?([0-9AC-FHKNPRTV-Y]{4})$/i, city: 1, postalCode: 2 };
+const AU_FORMAT: LocalityFormat = { pattern: /^(.+?)\s+(NSW|VIC|QLD|WA|SA|TAS|ACT|NT)\s+(\d{4})$/, city: 1, region: 2, postalCode: 3 };
+// "Mumbai, Maharashtra 400001"
+const IN_FORMAT: LocalityFormat = { pattern: /^(.+?)\s+(\d{6})$/, region: 1, postalCode: 2, cityFromPrevious: true };
+// "Sumida City, Tokyo 131-0045"
+const JP_FORMAT: LocalityFormat = { pattern: /^(.+?)\s+(\d{3}-\d{4})$/, region: 1, postalCode: 2, cityFromPrevious: true };
+// "São Paulo - SP, 01310-100"
+const BR_FORMAT: LocalityFormat = { pattern: /^(\d{5}-?\d{3})$/, postalCode: 1, cityFromPrevious: true };
+// Most of Europe and Latin America: "75001 Paris", "1012 AB Amsterdam", "00-001 Warszawa", "111 22 Stockholm"
+const POSTAL_FIRST_FORMAT: LocalityFormat = {
+  pattern: /^((?:[A-Z]{1,2}-)?(?:\d{2}-\d{3}|\d{4}-\d{3}|\d{3}\s\d{2}|\d{4}\s?[A-Z]{2}|\d{4,5}))\s+(\D.*)$/,
+  postalCode: 1,
+  city: 2
+};
+// "Casablanca 20250", "Singapore 018956"
+const CITY_POSTAL_FORMAT: LocalityFormat = { pattern: /^(\D.*?)\s+(\d{4,6})$/, city: 1, postalCode: 2 };
+
+const POSTAL_FIRST_COUNTRIES = ['FR', 'DE', 'ES', 'IT', 'NL', 'BE', 'CH', 'AT', 'PT', 'PL', 'DK', 'NO', 'SE', 'FI', 'GR', 'TR', 'MX', 'AR', 'CL', 'RU', 'UA', 'IL'];
+
+const FORMATS_BY_COUNTRY: Record<string, LocalityFormat[]> = {
+  US: [US_FORMAT],
+  CA: [CA_FORMAT],
+  GB: GB_FORMATS,
+  IE: [IE_FORMAT],
+  AU: [AU_FORMAT],
+  IN: [IN_FORMAT],
+  JP: [JP_FORMAT],
+  BR: [BR_FORMAT],
+  ...POSTAL_FIRST_COUNTRIES.reduce((formats, code) => ({ ...formats, [code]: [POSTAL_FIRST_FORMAT] }), {})
+};
+
+// Tried in order when the country is unknown or has no dedicated format
+const FALLBACK_FORMATS: LocalityFormat[] = [US_FORMAT, CA_FORMAT, ...GB_FORMATS, AU_FORMAT, POSTAL_FIRST_FORMAT, CITY_POSTAL_FORMAT];
+
+// "Roma RM", "São Paulo - SP": trailing province code on the city
+const CITY_WITH_REGION = /^(.+?)\s+(?:-\s+)?([A-Z]{2})$/;
+
+function applyFormat(segments: string[], format: LocalityFormat): AddressComponents | null {
+  // The locality is the last segment, or the one before a trailing region ("06000 Ciudad de México, CDMX")
+  for (const offset of [0, 1]) {
+    const index = segments.length - 1 - offset;
+    if (index < 0) break;
+
+    const match = segments[index].match(format.pattern);
+    if (!match) continue;
+
+    const streetEnd = format.cityFromPrevious ? index - 1 : index;
+    if (streetEnd < 0) continue;
+
+    const components: AddressComponents = {
+      city: format.cityFromPrevious ? segments[index - 1] : format.city ? match[format.city] : undefined,
+      postalCode: format.postalCode ? match[format.postalCode].toUpperCase() : undefined,
+      region: format.region ? match[format.region] : offset === 1 ? segments[segments.length - 1] : undefined
+    };
+    const street = segments.slice(0, streetEnd).join(', ');
+    if (street) components.street = street;
+
+    return components;
+  }
+
+  return null;
+}
+
+// Split a Maps address into street, city, postal code, region and country using
+// per-country locality formats. Offline and best effort: unrecognized layouts
+// fall back to "street…, city"
+export function parseAddress(address?: string, countryHint?: string): AddressComponents | undefined {
+  if (!address || address === 'Address not available') return undefined;
+
+  const segments = address.split(',').map(segment => segment.trim()).filter(Boolean);
+  if (segments.length === 0) return undefined;
+
+  let country = countryFromName(segments[segments.length - 1]);
+  if (country) segments.pop();
+  country = country || inferCountryFromText(segments.join(', ')) || countryHint;
+
+  const formats = (country && FORMATS_BY_COUNTRY[country]) || FALLBACK_FORMATS;
+  let components: AddressComponents | null = null;
+  for (const format of formats) {
+    components = applyFormat(segments, format);
+    if (components) break;
+  }
+
+  if (!components) {
+    if (segments.length < 2) return country ? { country } : undefined;
+    components = { street: segments.slice(0, -1).join(', '), city: segments[segments.length - 1] };
+  }
+
+  if (components.city && !components.region) {
+    const cityWithRegion = components.city.match(CITY_WITH_REGION);
+    if (cityWithRegion) {
+      components.city = cityWithRegion[1];
+      components.region = cityWithRegion[2];
+    }
+  }
+
+  if (country) components.country = country;
+  return components;
+}
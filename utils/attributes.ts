@@ -0,0 +1,22 @@
+import { BusinessData } from '@/types';
+
+// wheelchair_accessible_entrance -> "Wheelchair accessible entrance"
+export const formatAttributeName = (key: string): string => {
+  const words = key.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Attribute keys that are true for at least one business, most common first
+export const commonAttributes = (businesses: BusinessData[], limit: number = 12): { key: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  businesses.forEach(business => {
+    Object.keys(business.attributes || {}).forEach(key => {
+      if (business.attributes![key]) counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+
+  return Array.from(counts.entries())
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, limit);
+};
@@ -0,0 +1,135 @@
+// Coarse country lookup for places the app scrapes most. Bounding boxes are
+// approximate (south, west, north, east); where they overlap the smallest box
+// wins, which is good enough to pick a phone numbering plan.
+
+interface CountryInfo {
+  code: string;
+  name: string;
+  aliases: string[];
+  boxes: [number, number, number, number][];
+}
+
+export const COUNTRIES: CountryInfo[] = [
+  { code: 'US', name: 'United States', aliases: ['usa', 'u.s.a.', 'us', 'u.s.', 'united states of america', 'america'], boxes: [[24.4, -125.0, 49.4, -66.9], [51.0, -180.0, 71.5, -129.9], [18.9, -160.3, 22.3, -154.8]] },
+  { code: 'CA', name: 'Canada', aliases: [], boxes: [[41.7, -141.0, 83.1, -52.6]] },
+  { code: 'MX', name: 'Mexico', aliases: ['méxico'], boxes: [[14.5, -118.4, 32.7, -86.7]] },
+  { code: 'BR', name: 'Brazil', aliases: ['brasil'], boxes: [[-33.8, -74.0, 5.3, -34.8]] },
+  { code: 'AR', name: 'Argentina', aliases: [], boxes: [[-55.1, -73.6, -21.8, -53.6]] },
+  { code: 'CL', name: 'Chile', aliases: [], boxes: [[-56.0, -75.7, -17.5, -66.4]] },
+  { code: 'CO', name: 'Colombia', aliases: [], boxes: [[-4.2, -79.0, 12.5, -66.9]] },
+  { code: 'PE', name: 'Peru', aliases: ['perú'], boxes: [[-18.4, -81.4, -0.03, -68.7]] },
+  { code: 'GB', name: 'United Kingdom', aliases: ['uk', 'u.k.', 'great britain', 'england', 'scotland', 'wales', 'northern ireland'], boxes: [[49.9, -8.2, 60.9, 1.8]] },
+  { code: 'IE', name: 'Ireland', aliases: ['éire'], boxes: [[51.4, -10.5, 55.4, -6.0]] },
+  { code: 'FR', name: 'France', aliases: [], boxes: [[41.3, -5.2, 51.1, 9.6]] },
+  { code: 'ES', name: 'Spain', aliases: ['españa'], boxes: [[36.0, -9.3, 43.8, 3.3]] },
+  { code: 'PT', name: 'Portugal', aliases: [], boxes: [[36.9, -9.5, 42.2, -6.2]] },
+  { code: 'DE', name: 'Germany', aliases: ['deutschland'], boxes: [[47.3, 5.9, 55.1, 15.0]] },
+  { code: 'NL', name: 'Netherlands', aliases: ['the netherlands', 'nederland', 'holland'], boxes: [[50.75, 3.3, 53.6, 7.2]] },
+  { code: 'BE', name: 'Belgium', aliases: ['belgië', 'belgique'], boxes: [[49.5, 2.5, 51.5, 6.4]] },
+  { code: 'CH', name: 'Switzerland', aliases: ['schweiz', 'suisse', 'svizzera'], boxes: [[45.8, 5.9, 47.8, 10.5]] },
+  { code: 'AT', name: 'Austria', aliases: ['österreich'], boxes: [[46.4, 9.5, 49.0, 17.2]] },
+  { code: 'IT', name: 'Italy', aliases: ['italia'], boxes: [[36.6, 6.6, 47.1, 18.5]] },
+  { code: 'PL', name: 'Poland', aliases: ['polska'], boxes: [[49.0, 14.1, 54.8, 24.1]] },
+  { code: 'SE', name: 'Sweden', aliases: ['sverige'], boxes: [[55.3, 11.0, 69.1, 24.2]] },
+  { code: 'NO', name: 'Norway', aliases: ['norge'], boxes: [[58.0, 4.6, 71.2, 31.1]] },
+  { code: 'DK', name: 'Denmark', aliases: ['danmark'], boxes: [[54.6, 8.0, 57.8, 12.7]] },
+  { code: 'FI', name: 'Finland', aliases: ['suomi'], boxes: [[59.8, 20.6, 70.1, 31.6]] },
+  { code: 'GR', name: 'Greece', aliases: [], boxes: [[34.8, 19.4, 41.8, 28.2]] },
+  { code: 'TR', name: 'Turkey', aliases: ['türkiye', 'turkiye'], boxes: [[35.8, 26.0, 42.1, 44.8]] },
+  { code: 'UA', name: 'Ukraine', aliases: [], boxes: [[44.4, 22.1, 52.4, 40.2]] },
+  { code: 'RU', name: 'Russia', aliases: ['russian federation'], boxes: [[41.2, 27.3, 77.7, 180.0]] },
+  { code: 'MA', name: 'Morocco', aliases: ['maroc'], boxes: [[27.7, -13.2, 35.9, -1.0]] },
+  { code: 'EG', name: 'Egypt', aliases: [], boxes: [[22.0, 25.0, 31.7, 36.9]] },
+  { code: 'NG', name: 'Nigeria', aliases: [], boxes: [[4.3, 2.7, 13.9, 14.7]] },
+  { code: 'KE', name: 'Kenya', aliases: [], boxes: [[-4.7, 33.9, 5.0, 41.9]] },
+  { code: 'ZA', name: 'South Africa', aliases: [], boxes: [[-34.8, 16.5, -22.1, 32.9]] },
+  { code: 'AE', name: 'United Arab Emirates', aliases: ['uae', 'u.a.e.'], boxes: [[22.6, 51.6, 26.1, 56.4]] },
+  { code: 'SA', name: 'Saudi Arabia', aliases: [], boxes: [[16.4, 34.6, 32.2, 55.7]] },
+  { code: 'IL', name: 'Israel', aliases: [], boxes: [[29.5, 34.3, 33.3, 35.9]] },
+  { code: 'IN', name: 'India', aliases: ['bharat'], boxes: [[6.7, 68.1, 35.5, 97.4]] },
+  { code: 'PK', name: 'Pakistan', aliases: [], boxes: [[23.7, 60.9, 37.1, 77.8]] },
+  { code: 'CN', name: 'China', aliases: ["people's republic of china"], boxes: [[18.2, 73.5, 53.6, 134.8]] },
+  { code: 'HK', name: 'Hong Kong', aliases: [], boxes: [[22.15, 113.8, 22.56, 114.45]] },
+  { code: 'TW', name: 'Taiwan', aliases: [], boxes: [[21.9, 120.0, 25.3, 122.0]] },
+  { code: 'JP', name: 'Japan', aliases: [], boxes: [[24.2, 122.9, 45.5, 145.8]] },
+  { code: 'KR', name: 'South Korea', aliases: ['korea', 'republic of korea'], boxes: [[33.1, 124.6, 38.6, 131.9]] },
+  { code: 'TH', name: 'Thailand', aliases: [], boxes: [[5.6, 97.3, 20.5, 105.6]] },
+  { code: 'VN', name: 'Vietnam', aliases: ['viet nam'], boxes: [[8.4, 102.1, 23.4, 109.5]] },
+  { code: 'MY', name: 'Malaysia', aliases: [], boxes: [[0.8, 99.6, 7.4, 119.3]] },
+  { code: 'SG', name: 'Singapore', aliases: [], boxes: [[1.16, 103.6, 1.48, 104.1]] },
+  { code: 'ID', name: 'Indonesia', aliases: [], boxes: [[-11.0, 95.0, 6.0, 141.0]] },
+  { code: 'PH', name: 'Philippines', aliases: [], boxes: [[4.6, 116.9, 21.1, 126.6]] },
+  { code: 'AU', name: 'Australia', aliases: [], boxes: [[-43.7, 113.2, -10.6, 153.7]] },
+  { code: 'NZ', name: 'New Zealand', aliases: ['aotearoa'], boxes: [[-47.3, 166.4, -34.4, 178.6]] }
+];
+
+export const US_STATE_CODES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+  'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+  'ND', 'OH', 'OK', 'OR', 'PA', 'PR', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
+];
+
+export const CA_PROVINCE_CODES = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+
+const NAME_INDEX: Record<string, string> = COUNTRIES.reduce((index, country) => {
+  [country.name, ...country.aliases].forEach(name => {
+    index[name.toLowerCase()] = country.code;
+  });
+  return index;
+}, {} as Record<string, string>);
+
+export const getCountryName = (code: string): string | undefined =>
+  COUNTRIES.find(country => country.code === code)?.name;
+
+// Exact country name or alias ("France", "USA"), ignoring case
+export const countryFromName = (text: string): string | undefined =>
+  NAME_INDEX[text.trim().toLowerCase()];
+
+// Country named by one comma-separated segment: a country name ("Morocco"), or a
+// US state / Canadian province code with an optional postal code ("TX 78701").
+// Bare two-letter codes are read as states, since "DE" or "IN" are ambiguous
+export const countryFromSegment = (segment: string): string | undefined => {
+  const cleaned = segment.replace(/[\d-]+/g, ' ').replace(/\s+/g, ' ').trim();
+  const byName = countryFromName(cleaned);
+  if (byName) return byName;
+
+  const region = cleaned.match(/^([A-Z]{2})$/);
+  if (region && US_STATE_CODES.includes(region[1])) return 'US';
+  if (region && CA_PROVINCE_CODES.includes(region[1])) return 'CA';
+
+  // Canadian postal codes ("ON M5V 3L9") lose their digits above
+  const province = segment.trim().match(/^([A-Z]{2})\s+[A-Z]\d[A-Z]\s?\d[A-Z]\d$/);
+  if (province && CA_PROVINCE_CODES.includes(province[1])) return 'CA';
+
+  return undefined;
+};
+
+// "Austin, TX", "12 Rue X, 75001 Paris, France": checks the last two segments
+export const inferCountryFromText = (text?: string): string | undefined => {
+  if (!text) return undefined;
+
+  const segments = text.split(',').map(segment => segment.trim()).filter(Boolean);
+  for (const segment of segments.slice(-2).reverse()) {
+    const code = countryFromSegment(segment);
+    if (code) return code;
+  }
+  return undefined;
+};
+
+export const inferCountryFromCoordinates = (coordinates?: { lat: number; lng: number }): string | undefined => {
+  if (!coordinates) return undefined;
+  const { lat, lng } = coordinates;
+
+  let best: { code: string; area: number } | undefined;
+  COUNTRIES.forEach(country => {
+    country.boxes.forEach(([south, west, north, east]) => {
+      if (lat < south || lat > north || lng < west || lng > east) return;
+      const area = (north - south) * (east - west);
+      if (!best || area < best.area) {
+        best = { code: country.code, area };
+      }
+    });
+  });
+
+  return best?.code;
+};
@@ -0,0 +1,92 @@
+import { SweepCell } from '@/types';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Ground resolution at zoom 0 on the equator, in meters per pixel (256px Web Mercator tiles)
+const METERS_PER_PIXEL_AT_ZOOM_0 = 156543.03392;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points, in meters
+export const haversineDistance = (from: LatLng, to: LatLng): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Largest whole zoom level at which a circle of `radius` meters around `center`
+// still fits within `viewportPixels` (the shorter half-extent of the map viewport)
+export const zoomForRadius = (center: LatLng, radius: number, viewportPixels: number = 540): number => {
+  const metersPerPixelAtZoom0 = METERS_PER_PIXEL_AT_ZOOM_0 * Math.cos(toRadians(center.lat));
+  const zoom = Math.log2((metersPerPixelAtZoom0 * viewportPixels) / radius);
+
+  return Math.max(3, Math.min(21, Math.floor(zoom)));
+};
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Move a point by east/north offsets in meters (equirectangular approximation, fine at city scale)
+export const offsetCoordinates = (origin: LatLng, eastMeters: number, northMeters: number): LatLng => ({
+  lat: origin.lat + northMeters / METERS_PER_DEGREE_LAT,
+  lng: origin.lng + eastMeters / (METERS_PER_DEGREE_LAT * Math.cos(toRadians(origin.lat)))
+});
+
+const createSweepCell = (id: string, center: LatLng, size: number, depth: number): SweepCell => ({
+  id,
+  center,
+  size,
+  // Circumscribed circle, so a search around the cell center covers its corners
+  radius: (size * Math.SQRT2) / 2,
+  depth
+});
+
+// Conservative overlap test using the cell's circumscribed circle
+export const cellIntersectsCircle = (cell: SweepCell, center: LatLng, radius: number): boolean =>
+  haversineDistance(center, cell.center) <= radius + cell.radius;
+
+// Split the bounding square of the search circle into gridSize x gridSize cells, keeping those touching the circle
+export const buildSweepGrid = (center: LatLng, radius: number, gridSize: number): SweepCell[] => {
+  const size = Math.max(1, gridSize);
+  const cellSize = (radius * 2) / size;
+  const cells: SweepCell[] = [];
+
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const east = -radius + cellSize * (col + 0.5);
+      const north = radius - cellSize * (row + 0.5);
+      const cell = createSweepCell(`${row}-${col}`, offsetCoordinates(center, east, north), cellSize, 0);
+      if (cellIntersectsCircle(cell, center, radius)) {
+        cells.push(cell);
+      }
+    }
+  }
+
+  return cells;
+};
+
+// Quarter a cell into four sub-cells one level deeper
+export const subdivideSweepCell = (cell: SweepCell): SweepCell[] => {
+  const half = cell.size / 2;
+  const offset = half / 2;
+
+  return [
+    { id: 'nw', east: -offset, north: offset },
+    { id: 'ne', east: offset, north: offset },
+    { id: 'sw', east: -offset, north: -offset },
+    { id: 'se', east: offset, north: -offset }
+  ].map(quadrant => createSweepCell(
+    `${cell.id}/${quadrant.id}`,
+    offsetCoordinates(cell.center, quadrant.east, quadrant.north),
+    half,
+    cell.depth + 1
+  ));
+};
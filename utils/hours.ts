@@ -0,0 +1,185 @@
+import tzLookup from '@photostructure/tz-lookup';
+import { BusinessData, DayHours, OpeningHours, Weekday } from '@/types';
+
+// Indexed like Date.getDay()
+export const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Monday-first order for display and export columns
+export const DISPLAY_WEEKDAYS: Weekday[] = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Case-sensitive lookahead: table text runs days into the next word ("WednesdayClosed", "5 PMTuesday")
+const DAY_PATTERN = /([Ss]un|[Mm]on|[Tt]ue|[Ww]ed|[Tt]hu|[Ff]ri|[Ss]at)(?:day|sday|nesday|rsday|urday|s|rs)?(?![a-z])\.?/g;
+const TIME_PATTERN = /(noon|midnight|(\d{1,2})(?:[:.](\d{2}))?\s*([ap])?\.?\s*m?\.?)/i;
+const RANGE_SEPARATOR = /\s*(?:–|—|-|\bto\b)\s*/i;
+
+const toClock = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const toMinutes = (clock: string): number => {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+interface ParsedTime {
+  minutes: number;
+  meridiem?: 'a' | 'p';
+}
+
+const parseTime = (text: string): ParsedTime | null => {
+  const match = text.trim().match(TIME_PATTERN);
+  if (!match) return null;
+  if (/noon/i.test(match[1])) return { minutes: 12 * 60, meridiem: 'p' };
+  if (/midnight/i.test(match[1])) return { minutes: 0, meridiem: 'a' };
+
+  const hours = parseInt(match[2]);
+  const minutes = match[3] ? parseInt(match[3]) : 0;
+  if (hours > 24 || minutes > 59) return null;
+
+  return { minutes: (hours % 24) * 60 + minutes, meridiem: match[4]?.toLowerCase() as 'a' | 'p' | undefined };
+};
+
+const applyMeridiem = (minutes: number, meridiem: 'a' | 'p'): number => {
+  const hours = Math.floor(minutes / 60) % 12;
+  return (hours + (meridiem === 'p' ? 12 : 0)) * 60 + (minutes % 60);
+};
+
+// "11:30 AM–2:30 PM, 5–10 PM", "17:00–02:00", "Open 24 hours", "Closed"
+export const parseDayHours = (text: string): DayHours | null => {
+  const normalized = text.replace(/[\u202f\u00a0]/g, ' ').trim();
+  if (!normalized) return null;
+  if (/open 24 hours|24 hours|24\/7/i.test(normalized)) return { status: 'open24h', intervals: [] };
+  if (/^closed\b/i.test(normalized)) return { status: 'closed', intervals: [] };
+
+  const intervals = normalized
+    .split(/[,;]/)
+    .map(range => range.split(RANGE_SEPARATOR))
+    .filter(parts => parts.length === 2)
+    .map(([openText, closeText]) => {
+      const open = parseTime(openText);
+      const close = parseTime(closeText);
+      if (!open || !close) return null;
+
+      let closeMinutes = close.meridiem ? applyMeridiem(close.minutes, close.meridiem) : close.minutes;
+      let openMinutes = open.minutes;
+      if (open.meridiem) {
+        openMinutes = applyMeridiem(open.minutes, open.meridiem);
+      } else if (close.meridiem) {
+        // "5–10 PM" shares the closing meridiem unless that would start after closing ("11–2 PM")
+        openMinutes = applyMeridiem(open.minutes, close.meridiem);
+        if (openMinutes > closeMinutes) {
+          openMinutes = applyMeridiem(open.minutes, close.meridiem === 'p' ? 'a' : 'p');
+        }
+      }
+      closeMinutes = closeMinutes % MINUTES_PER_DAY;
+
+      return { open: toClock(openMinutes), close: toClock(closeMinutes) };
+    })
+    .filter((interval): interval is { open: string; close: string } => interval !== null);
+
+  return intervals.length > 0 ? { status: 'open', intervals } : null;
+};
+
+// Split "Monday, 9 AM to 5 PM; Tuesday, …" or table text ("Monday9 AM–5 PMTuesday…") into weekdays
+export const parseOpeningHours = (raw?: string): OpeningHours | undefined => {
+  if (!raw) return undefined;
+
+  const markers: { day: Weekday; start: number; end: number }[] = [];
+  let match: RegExpExecArray | null;
+  DAY_PATTERN.lastIndex = 0;
+  while ((match = DAY_PATTERN.exec(raw)) !== null) {
+    const day = WEEKDAYS.find(weekday => weekday.startsWith(match![1].slice(0, 3).toLowerCase()));
+    if (day) {
+      markers.push({ day, start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  const hours: OpeningHours = {};
+  markers.forEach((marker, index) => {
+    const segment = raw.slice(marker.end, index + 1 < markers.length ? markers[index + 1].start : undefined);
+    const dayHours = parseDayHours(segment.replace(/^[\s:,]+/, ''));
+    // Holiday notes and "Hours might differ" lines repeat day names; keep the first parse
+    if (dayHours && !hours[marker.day]) {
+      hours[marker.day] = dayHours;
+    }
+  });
+
+  return Object.keys(hours).length > 0 ? hours : undefined;
+};
+
+// Whether the place is open on `day` at `minutes` past midnight, counting the
+// previous day's overnight intervals. Unknown when the day has no parsed hours
+export const isOpenAt = (hours: OpeningHours, day: Weekday, minutes: number): boolean | undefined => {
+  const today = hours[day];
+  const yesterday = hours[WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7]];
+
+  const spillsOver = yesterday?.status === 'open' && yesterday.intervals.some(interval => {
+    const open = toMinutes(interval.open);
+    const close = toMinutes(interval.close);
+    return close <= open && minutes < close;
+  });
+  if (spillsOver) return true;
+
+  if (!today) return undefined;
+  if (today.status === 'open24h') return true;
+  if (today.status === 'closed') return false;
+
+  return today.intervals.some(interval => {
+    const open = toMinutes(interval.open);
+    const close = toMinutes(interval.close);
+    return minutes >= open && (close <= open || minutes < close);
+  });
+};
+
+// IANA time zone at the business's coordinates; undefined without coordinates
+export const businessTimeZone = (business: BusinessData): string | undefined => {
+  if (!business.coordinates) return undefined;
+  try {
+    return tzLookup(business.coordinates.lat, business.coordinates.lng);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// Weekday and minutes past midnight of `now` on the clock in `timeZone`. Falls
+// back to the viewer's clock when the zone is missing or unknown
+export const zonedClock = (now: Date, timeZone?: string): { day: Weekday; minutes: number } => {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'long',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      }).formatToParts(now);
+      const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+      const day = part('weekday').toLowerCase() as Weekday;
+      if (WEEKDAYS.includes(day)) {
+        return { day, minutes: (parseInt(part('hour')) % 24) * 60 + parseInt(part('minute')) };
+      }
+    } catch (error) {
+      // Unknown time zone
+    }
+  }
+  return { day: WEEKDAYS[now.getDay()], minutes: now.getHours() * 60 + now.getMinutes() };
+};
+
+// Hours are the business's local times, so compare them with its own clock
+export const isOpenNow = (hours: OpeningHours, now: Date = new Date(), timeZone?: string): boolean | undefined => {
+  const { day, minutes } = zonedClock(now, timeZone);
+  return isOpenAt(hours, day, minutes);
+};
+
+export const parseClockTime = (time: string): number | null => {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+};
+
+export const formatDayHours = (dayHours?: DayHours): string => {
+  if (!dayHours) return '';
+  if (dayHours.status === 'open24h') return 'Open 24 hours';
+  if (dayHours.status === 'closed') return 'Closed';
+  return dayHours.intervals.map(interval => `${interval.open}–${interval.close}`).join(', ');
+};
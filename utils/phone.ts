@@ -0,0 +1,14 @@
+import { parsePhoneNumberFromString } from 'libphonenumber-js/min';
+import { PhoneDetails } from '@/types';
+
+// Display form of a scraped phone: international format from the normalized
+// number, or the raw Maps text when it could not be validated
+export const formatPhone = (phone?: string, details?: PhoneDetails): string | null => {
+  if (!phone) return null;
+  if (!details?.e164) return phone;
+
+  return parsePhoneNumberFromString(details.e164)?.formatInternational() || details.e164;
+};
+
+export const phoneHref = (phone: string, details?: PhoneDetails): string =>
+  `tel:${details?.e164 || phone.replace(/[^\d+]/g, '')}`;
@@ -0,0 +1,9 @@
+import { SocialNetwork } from '@/types';
+
+// Display and export order
+export const SOCIAL_NETWORKS: { id: SocialNetwork; label: string }[] = [
+  { id: 'facebook', label: 'Facebook' },
+  { id: 'instagram', label: 'Instagram' },
+  { id: 'linkedin', label: 'LinkedIn' },
+  { id: 'x', label: 'X' }
+];
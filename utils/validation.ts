@@ -9,13 +9,26 @@ export const searchParamsSchema = z.object({
     lng: z.number()
   }).optional(),
   maxResults: z.number().min(10, 'Minimum 10 results').max(500, 'Maximum 500 results'),
-  searchMode: z.enum(['preview', 'full', 'unlimited'])
+  searchMode: z.enum(['preview', 'full', 'unlimited']),
+  forceRefresh: z.boolean().optional(),
+  areaSweep: z.boolean().optional(),
+  enrichWebsites: z.boolean().optional(),
+  includeReviews: z.boolean().optional(),
+  maxReviews: z.number().min(1, 'Collect at least 1 review').max(200, 'Maximum 200 reviews per business').optional()
 });
 
 export const exportOptionsSchema = z.object({
-  format: z.enum(['csv', 'xlsx']),
+  format: z.enum(['csv', 'xlsx', 'geojson', 'kml', 'gpx', 'jsonl', 'parquet']),
   includePhotos: z.boolean().default(false),
-  selectedFields: z.array(z.string()).default([])
+  selectedFields: z.array(z.string()).default([]),
+  hoursByWeekday: z.boolean().optional(),
+  addressComponents: z.boolean().optional(),
+  reviews: z.boolean().optional(),
+  searchMetadata: z.boolean().optional(),
+  categorySummary: z.boolean().optional(),
+  delimiter: z.enum([',', ';', '\t']).optional(),
+  encoding: z.enum(['utf-8', 'utf-8-bom']).optional(),
+  includeHeader: z.boolean().optional()
 });
 
 export const googleSheetsConfigSchema = z.object({